@@ -17,6 +17,7 @@ import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
 import Products from "./pages/Products";
 import Customers from "./pages/Customers";
+import CustomerDetail from "./pages/CustomerDetail";
 import POS from "./pages/POS";
 import Sales from "./pages/Sales";
 import Settings from "./pages/Settings";
@@ -58,6 +59,7 @@ const App = () => {
               <Route path="dashboard" element={<Dashboard />} />
               <Route path="products" element={<Products />} />
               <Route path="customers" element={<Customers />} />
+              <Route path="customers/:id" element={<CustomerDetail />} />
               <Route path="pos" element={<POS />} />
               <Route path="sales" element={<Sales />} />
               <Route path="settings" element={<Settings />} />
@@ -5,7 +5,7 @@ import { useNetwork } from '@/context/NetworkContext';
 import { useCustomer } from '@/context/CustomerContext';
 import { useCart } from '@/context/CartContext';
 import { useAuth } from '@/context/AuthContext';
-import { syncDataOnLogin } from '@/services/syncService';
+import { syncDataOnLogin } from '@/services/sync';
 import { getContacts, getProducts } from '@/lib/storage';
 import { autoSelectLocation } from '@/services/locationService';
 import { getBusinessSettings } from '@/lib/businessSettings';
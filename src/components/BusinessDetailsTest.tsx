@@ -5,7 +5,7 @@ import { getBusinessSettings, getDefaultBusinessSettings } from '@/lib/businessS
 import { getToken } from '@/lib/storage';
 import { useAuth } from '@/context/AuthContext';
 import { useNetwork } from '@/context/NetworkContext';
-import { syncData, syncDataOnLogin } from '@/services/syncService';
+import { syncData, syncDataOnLogin } from '@/services/sync';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Customer, useCustomer } from '@/context/CustomerContext';
+import { useNetwork } from '@/context/NetworkContext';
+import { isTemporaryContactId, NewCustomerData } from '@/services/customerService';
+import { toast } from 'sonner';
+
+interface AddCustomerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (customer: Customer) => void;
+}
+
+const EMPTY_CUSTOMER: NewCustomerData = {
+  first_name: '',
+  last_name: '',
+  mobile: '',
+  email: '',
+  tax_number: '',
+  address_line_1: '',
+  city: '',
+};
+
+const AddCustomerDialog: React.FC<AddCustomerDialogProps> = ({ open, onOpenChange, onCreated }) => {
+  const { addCustomer } = useCustomer();
+  const { isOnline } = useNetwork();
+  const [form, setForm] = useState<NewCustomerData>(EMPTY_CUSTOMER);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm(EMPTY_CUSTOMER);
+    }
+  }, [open]);
+
+  const updateField = (key: keyof NewCustomerData, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.first_name.trim() || !form.mobile.trim()) {
+      toast.error('First name and mobile are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Leave out the optional fields that weren't filled in
+      const data = Object.fromEntries(
+        Object.entries(form).map(([key, value]) => [key, value.trim()]).filter(([, value]) => value)
+      ) as NewCustomerData;
+      const customer = await addCustomer(data);
+      toast.success(isTemporaryContactId(customer.id)
+        ? `${customer.name} added offline - the customer will be uploaded when back online`
+        : `${customer.name} added`);
+      onCreated?.(customer);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error adding customer:', error);
+      toast.error('Failed to add customer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Add Customer</DialogTitle>
+            <DialogDescription>
+              {isOnline
+                ? 'The customer can be used on sales straight away.'
+                : 'You are offline. The customer can be used on sales now and will be uploaded later.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div>
+              <Label htmlFor="customer-first-name">First name *</Label>
+              <Input
+                id="customer-first-name"
+                value={form.first_name}
+                onChange={(e) => updateField('first_name', e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer-last-name">Last name</Label>
+              <Input
+                id="customer-last-name"
+                value={form.last_name}
+                onChange={(e) => updateField('last_name', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer-mobile">Mobile *</Label>
+              <Input
+                id="customer-mobile"
+                type="tel"
+                value={form.mobile}
+                onChange={(e) => updateField('mobile', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer-email">Email</Label>
+              <Input
+                id="customer-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => updateField('email', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer-tax-number">Tax number</Label>
+              <Input
+                id="customer-tax-number"
+                value={form.tax_number}
+                onChange={(e) => updateField('tax_number', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer-city">City</Label>
+              <Input
+                id="customer-city"
+                value={form.city}
+                onChange={(e) => updateField('city', e.target.value)}
+              />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="customer-address">Address</Label>
+              <Input
+                id="customer-address"
+                value={form.address_line_1}
+                onChange={(e) => updateField('address_line_1', e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Adding...' : 'Add Customer'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddCustomerDialog;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Customer, useCustomer } from '@/context/CustomerContext';
+import { useNetwork } from '@/context/NetworkContext';
+import { CustomerChanges, EDITABLE_CUSTOMER_FIELDS } from '@/services/customerService';
+import { toast } from 'sonner';
+
+interface CustomerDetailsFormProps {
+  customer: Customer;
+  editing: boolean;
+  onEditingChange: (editing: boolean) => void;
+  onSaved: (customer: Customer) => void;
+}
+
+const FIELD_LABELS: Record<typeof EDITABLE_CUSTOMER_FIELDS[number], string> = {
+  first_name: 'First name',
+  last_name: 'Last name',
+  mobile: 'Mobile',
+  email: 'Email',
+  tax_number: 'Tax number',
+  address_line_1: 'Address line 1',
+  address_line_2: 'Address line 2',
+  city: 'City',
+  state: 'State',
+  country: 'Country',
+  zip_code: 'Zip code',
+};
+
+const toForm = (customer: Customer): CustomerChanges => {
+  return Object.fromEntries(EDITABLE_CUSTOMER_FIELDS.map(field => [field, customer[field] || '']));
+};
+
+const CustomerDetailsForm: React.FC<CustomerDetailsFormProps> = ({
+  customer,
+  editing,
+  onEditingChange,
+  onSaved,
+}) => {
+  const { editCustomer } = useCustomer();
+  const { isOnline } = useNetwork();
+  const [form, setForm] = useState<CustomerChanges>(toForm(customer));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(toForm(customer));
+  }, [customer, editing]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.first_name?.trim() || !form.mobile?.trim()) {
+      toast.error('First name and mobile are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const changes = Object.fromEntries(
+        Object.entries(form).map(([key, value]) => [key, value?.trim() || ''])
+      ) as CustomerChanges;
+      const updated = await editCustomer(customer, changes);
+      toast.success(updated.local_changes_at ? 'Customer saved - changes will sync later' : 'Customer saved');
+      onSaved(updated);
+      onEditingChange(false);
+    } catch (error) {
+      console.error('Error saving customer:', error);
+      toast.error('Failed to save customer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Contact Details</CardTitle>
+          <CardDescription>
+            {customer.local_changes_at
+              ? 'Changes waiting to sync'
+              : !isOnline && editing ? 'You are offline - changes will be queued' : customer.contact_id || ''}
+          </CardDescription>
+        </div>
+        {!editing && (
+          <Button variant="outline" size="sm" onClick={() => onEditingChange(true)}>
+            Edit
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {EDITABLE_CUSTOMER_FIELDS.map(field => (
+              <div key={field}>
+                <Label htmlFor={`customer-${field}`}>{FIELD_LABELS[field]}</Label>
+                {editing ? (
+                  <Input
+                    id={`customer-${field}`}
+                    value={form[field] || ''}
+                    onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+                  />
+                ) : (
+                  <p id={`customer-${field}`} className="text-sm text-gray-900 py-2">{customer[field] || '-'}</p>
+                )}
+              </div>
+            ))}
+          </div>
+          {editing && (
+            <div className="flex justify-end gap-2 mt-4">
+              <Button type="button" variant="outline" onClick={() => onEditingChange(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CustomerDetailsForm;
@@ -0,0 +1,153 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader, Wallet } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import RecordPaymentDialog from '@/components/customers/RecordPaymentDialog';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { Customer } from '@/context/CustomerContext';
+import { CreditStatus, CustomerLedger as Ledger, getCreditStatus, getCustomerLedger } from '@/services/receivableService';
+import { subscribeToSync } from '@/services/sync';
+import { formatCurrencySync } from '@/utils/formatting';
+import { toast } from 'sonner';
+
+interface CustomerLedgerProps {
+  customer: Customer;
+  // Called after a payment is recorded so the page can refresh its totals
+  onChange?: () => void;
+}
+
+const CustomerLedger: React.FC<CustomerLedgerProps> = ({ customer, onChange }) => {
+  const { settings } = useBusinessSettings();
+  const [ledger, setLedger] = useState<Ledger | null>(null);
+  const [credit, setCredit] = useState<CreditStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showPaymentDialog, setShowPaymentDialog] = useState(false);
+
+  const loadLedger = useCallback(async () => {
+    try {
+      const [customerLedger, creditStatus] = await Promise.all([
+        getCustomerLedger(customer.id),
+        getCreditStatus(customer),
+      ]);
+      setLedger(customerLedger);
+      setCredit(creditStatus);
+    } catch (error) {
+      console.error('Error loading customer ledger:', error);
+      toast.error('Failed to load account');
+    } finally {
+      setLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  // Payments and downloaded invoices change the balance
+  useEffect(() => {
+    return subscribeToSync(event => {
+      if (event.type === 'adapter_completed' && (event.entity === 'payments' || event.entity === 'receivables')) {
+        loadLedger();
+      }
+    });
+  }, [loadLedger]);
+
+  const formatAmount = (amount: number) => {
+    return settings ? formatCurrencySync(amount, settings) : amount.toFixed(2);
+  };
+
+  const handleRecorded = () => {
+    loadLedger();
+    onChange?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Account</CardTitle>
+          <CardDescription>
+            {credit
+              ? credit.limit === null
+                ? 'No credit limit'
+                : `Credit limit ${formatAmount(credit.limit)} - ${formatAmount(credit.available ?? 0)} available`
+              : ''}
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowPaymentDialog(true)}
+          disabled={!ledger || ledger.balance <= 0}
+        >
+          <Wallet className="h-4 w-4 mr-2" />
+          Record Payment
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader className="h-4 w-4 animate-spin mr-2" />
+            Loading account...
+          </div>
+        ) : !ledger || ledger.entries.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing owed.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledger.entries.map(entry => (
+                  <TableRow key={entry.key}>
+                    <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                    <TableCell>{entry.reference}</TableCell>
+                    <TableCell className="text-right">{entry.debit ? formatAmount(entry.debit) : ''}</TableCell>
+                    <TableCell className="text-right">{entry.credit ? formatAmount(entry.credit) : ''}</TableCell>
+                    <TableCell className="text-right">{formatAmount(entry.balance)}</TableCell>
+                    <TableCell>
+                      {entry.pending && <Badge variant="secondary">Pending sync</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex justify-end mt-4 font-medium">
+              <span className="mr-2">Balance owed</span>
+              <span className={ledger.balance > 0 ? 'text-red-600' : ''}>{formatAmount(ledger.balance)}</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      {ledger && (
+        <RecordPaymentDialog
+          open={showPaymentDialog}
+          onOpenChange={setShowPaymentDialog}
+          customer={customer}
+          ledger={ledger}
+          onRecorded={handleRecorded}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default CustomerLedger;
@@ -1,10 +1,12 @@
 
 import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useCustomer, Customer } from '@/context/CustomerContext';
 import { Button } from '@/components/ui/button';
 import { Loader, Search, RefreshCw, User } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { useNetwork } from '@/context/NetworkContext';
+import { isTemporaryContactId } from '@/services/customerService';
 
 interface CustomerListProps {
   searchQuery?: string;
@@ -14,6 +16,7 @@ interface CustomerListProps {
 const CustomerList = ({ searchQuery = '', status }: CustomerListProps) => {
   const { customers, isLoading, refreshCustomers } = useCustomer();
   const { isOnline } = useNetwork();
+  const navigate = useNavigate();
   const [filteredCustomers, setFilteredCustomers] = useState<Customer[]>([]);
   const [localSearch, setLocalSearch] = useState('');
   const [refreshing, setRefreshing] = useState(false);
@@ -118,7 +121,9 @@ const CustomerList = ({ searchQuery = '', status }: CustomerListProps) => {
                       </div>
                       <div className="ml-4">
                         <div className="text-sm font-medium text-gray-900">{customer.name}</div>
-                        <div className="text-sm text-gray-500">{customer.contact_id}</div>
+                        <div className="text-sm text-gray-500">
+                          {isTemporaryContactId(customer.id) ? 'Waiting to upload' : customer.contact_id}
+                        </div>
                       </div>
                     </div>
                   </td>
@@ -144,8 +149,12 @@ const CustomerList = ({ searchQuery = '', status }: CustomerListProps) => {
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    <Button variant="ghost" size="sm">View</Button>
-                    <Button variant="ghost" size="sm">Edit</Button>
+                    <Button variant="ghost" size="sm" onClick={() => navigate(`/customers/${customer.id}`)}>
+                      View
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => navigate(`/customers/${customer.id}?edit=1`)}>
+                      Edit
+                    </Button>
                   </td>
                 </tr>
               ))}
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { Customer } from '@/context/CustomerContext';
+import { CustomerLedger, recordCustomerPayment } from '@/services/receivableService';
+import { formatCurrencySync } from '@/utils/formatting';
+import { getPaymentMethods, roundToPrecision } from '@/utils/paymentUtils';
+import { toast } from 'sonner';
+
+interface RecordPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: Customer;
+  ledger: CustomerLedger;
+  onRecorded: () => void;
+}
+
+const RecordPaymentDialog: React.FC<RecordPaymentDialogProps> = ({
+  open,
+  onOpenChange,
+  customer,
+  ledger,
+  onRecorded,
+}) => {
+  const { settings } = useBusinessSettings();
+  const precision = settings?.currency_precision ?? 2;
+  const paymentMethods = getPaymentMethods(settings);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState('cash');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setAmount(ledger.balance.toFixed(precision));
+      setMethod('cash');
+      setNote('');
+    }
+  }, [open, ledger.balance, precision]);
+
+  const formatPrice = (price: number): string => {
+    return settings ? formatCurrencySync(price, settings) : price.toFixed(precision);
+  };
+
+  const value = roundToPrecision(parseFloat(amount) || 0, precision);
+  const overpaying = value > ledger.balance;
+
+  // The server settles the oldest invoices first
+  let left = value;
+  const settled = ledger.open_invoices.map(invoice => {
+    const applied = Math.min(left, invoice.due);
+    left = roundToPrecision(left - applied, precision);
+    return { invoice, applied };
+  }).filter(({ applied }) => applied > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(value > 0) || overpaying) return;
+
+    setSaving(true);
+    try {
+      const { synced } = await recordCustomerPayment(customer.id, {
+        amount: value,
+        method,
+        ...(note.trim() && { note: note.trim() }),
+      });
+      toast.success(synced ? 'Payment recorded' : 'Payment recorded - it will sync later');
+      onRecorded();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error('Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              {customer.name} owes {formatPrice(ledger.balance)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="payment-amount">Amount</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  autoFocus
+                />
+              </div>
+              <div>
+                <Label>Method</Label>
+                <Select value={method} onValueChange={setMethod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paymentMethods.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="payment-note">Note</Label>
+              <Input id="payment-note" value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+            {overpaying ? (
+              <p className="text-sm text-red-600">The payment can't be more than the balance owed.</p>
+            ) : settled.length > 0 && (
+              <div className="text-sm text-gray-600 space-y-1">
+                <p className="font-medium">Settles</p>
+                {settled.map(({ invoice, applied }) => (
+                  <div key={invoice.key} className="flex justify-between">
+                    <span>{invoice.invoice_no || invoice.key}</span>
+                    <span>
+                      {formatPrice(applied)}{applied < invoice.due ? ` of ${formatPrice(invoice.due)}` : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !(value > 0) || overpaying}>
+              {saving ? 'Recording...' : 'Record Payment'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordPaymentDialog;
@@ -5,12 +5,14 @@ import Header from './Header';
 import { BusinessSettingsProvider } from '@/context/BusinessSettingsContext';
 import { CartProvider } from '@/context/CartContext';
 import { CustomerProvider } from '@/context/CustomerContext';
+import CartRecovery from '@/components/pos/CartRecovery';
 
 const ProtectedLayout = () => {
   return (
     <BusinessSettingsProvider>
       <CartProvider>
         <CustomerProvider>
+          <CartRecovery />
           <div className="flex h-screen bg-gray-50">
             <Sidebar />
             <div className="flex-1 flex flex-col overflow-hidden">
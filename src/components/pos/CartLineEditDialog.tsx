@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CartItem, CartItemChanges } from '@/context/CartContext';
+import { TaxRate } from '@/services/taxRateService';
+import { calculateLineTax, calculateLineTotal, DiscountType } from '@/utils/cartUtils';
+
+// Select value for "no tax"
+const NO_TAX = 'none';
+
+interface CartLineEditDialogProps {
+  item: CartItem | null;
+  taxRates: TaxRate[];
+  onOpenChange: (open: boolean) => void;
+  formatPrice: (price: number) => string;
+  onSave: (id: number, changes: CartItemChanges) => void;
+}
+
+const CartLineEditDialog: React.FC<CartLineEditDialogProps> = ({
+  item,
+  taxRates,
+  onOpenChange,
+  formatPrice,
+  onSave,
+}) => {
+  const [price, setPrice] = useState('');
+  const [discount, setDiscount] = useState('');
+  const [discountType, setDiscountType] = useState<DiscountType>('fixed');
+  const [taxRateId, setTaxRateId] = useState(NO_TAX);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (item) {
+      setPrice(String(item.price));
+      setDiscount(item.discount ? String(item.discount) : '');
+      setDiscountType(item.discount_type || 'fixed');
+      setTaxRateId(item.tax_rate_id ? String(item.tax_rate_id) : NO_TAX);
+      setNote(item.note || '');
+    }
+  }, [item]);
+
+  const unitPrice = parseFloat(price);
+  const discountValue = parseFloat(discount) || 0;
+  const selectedRate = taxRates.find(rate => String(rate.id) === taxRateId) || null;
+
+  let error: string | null = null;
+  if (isNaN(unitPrice) || unitPrice < 0) {
+    error = 'Enter a valid unit price';
+  } else if (discountValue < 0) {
+    error = 'Discount cannot be negative';
+  } else if (discountType === 'percentage' && discountValue > 100) {
+    error = 'Percentage discount cannot exceed 100%';
+  } else if (discountType === 'fixed' && discountValue > unitPrice) {
+    error = 'Discount cannot exceed the unit price';
+  }
+
+  const editedLine = item && !error
+    ? {
+        price: unitPrice,
+        quantity: item.quantity,
+        discount: discountValue,
+        discount_type: discountType,
+        tax_percent: selectedRate?.amount || 0,
+        tax_type: item.tax_type,
+      }
+    : null;
+  const lineTotal = editedLine ? calculateLineTotal(editedLine) : null;
+  const lineTax = editedLine ? calculateLineTax(editedLine) : 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item || error) return;
+
+    onSave(item.id, {
+      ...(unitPrice !== item.price && { price: unitPrice }),
+      discount: discountValue,
+      discount_type: discountType,
+      tax_rate_id: selectedRate?.id ?? null,
+      tax_name: selectedRate?.name,
+      tax_percent: selectedRate?.amount || 0,
+      note: note.trim() || undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{item?.name}</DialogTitle>
+            <DialogDescription>
+              Adjust the price, discount, tax or note for this line.
+              {item?.original_price !== undefined && ` Catalogue price: ${formatPrice(item.original_price)}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="line-price">Unit price</Label>
+              <Input
+                id="line-price"
+                type="number"
+                min="0"
+                step="any"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="line-discount">Discount</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="line-discount"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="0"
+                  value={discount}
+                  onChange={(e) => setDiscount(e.target.value)}
+                />
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={discountType}
+                  onValueChange={(value) => value && setDiscountType(value as DiscountType)}
+                >
+                  <ToggleGroupItem value="fixed" aria-label="Fixed amount per unit">
+                    Fixed
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="percentage" aria-label="Percentage">
+                    %
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {discountType === 'fixed' ? 'Amount off each unit' : 'Percentage off the unit price'}
+              </p>
+            </div>
+
+            <div>
+              <Label>Tax{item?.tax_type === 'inclusive' && ' (included in price)'}</Label>
+              <Select value={taxRateId} onValueChange={setTaxRateId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TAX}>No tax</SelectItem>
+                  {taxRates.map(rate => (
+                    <SelectItem key={rate.id} value={String(rate.id)}>
+                      {rate.name} ({rate.amount}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="line-note">Note</Label>
+              <Textarea
+                id="line-note"
+                rows={2}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-between text-sm font-medium">
+              <span>Line total ({item?.quantity} × unit)</span>
+              <span>{lineTotal !== null ? formatPrice(lineTotal) : '-'}</span>
+            </div>
+            {lineTax > 0 && (
+              <div className="flex justify-between text-sm text-gray-500">
+                <span>Tax</span>
+                <span>+{formatPrice(lineTax)}</span>
+              </div>
+            )}
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!!error}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CartLineEditDialog;
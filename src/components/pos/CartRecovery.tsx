@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/context/AuthContext';
+import { CartOrder, useCart } from '@/context/CartContext';
+import {
+  CartSession,
+  deleteCartSession,
+  getCartSession,
+  getCartSessionKey,
+  saveCartSession,
+} from '@/lib/storage';
+
+// Orders in a saved session, upgrading the older single-cart shape
+const getSessionOrders = (session: CartSession): CartOrder[] => {
+  if (session.orders) return session.orders;
+  if (!session.cart) return [];
+  return [{
+    ...session.cart,
+    id: `order_${Date.now()}`,
+    name: 'Order 1',
+    customer: session.customer || null
+  }];
+};
+
+const isOrderEmpty = (order: CartOrder) => order.items.length === 0 && !order.customer;
+
+/**
+ * Keeps the open orders in IndexedDB (one session per user and till location) so a
+ * reload, crash or PWA update doesn't lose them. Recovered orders are never reused
+ * silently: the cashier has to choose to restore or discard them, and nothing is
+ * saved over them until they have. Orders rung up before a location is chosen are
+ * saved too, and move to the location's session once it is.
+ */
+const CartRecovery: React.FC = () => {
+  const { user } = useAuth();
+  const { orders, activeOrderId, locationId, loadOrders } = useCart();
+  const [checkedKey, setCheckedKey] = useState<string | null>(null);
+  const [recovered, setRecovered] = useState<CartSession | null>(null);
+  const ordersRef = useRef(orders);
+  ordersRef.current = orders;
+  // Session the open orders were last saved under
+  const savedKeyRef = useRef<string | null>(null);
+
+  const sessionKey = user ? getCartSessionKey(user.id, locationId) : null;
+  const hasOpenItems = orders.some(order => order.items.length > 0);
+
+  // Look for a saved cart whenever the user or the till's location changes
+  useEffect(() => {
+    if (!sessionKey || sessionKey === checkedKey) return;
+
+    let cancelled = false;
+    const checkSavedCart = async () => {
+      const session: CartSession | null = await getCartSession(sessionKey);
+      if (cancelled) return;
+
+      // Saved orders are always offered - saving now would write over them
+      const savedOrders = session ? getSessionOrders(session) : [];
+      if (savedOrders.some(order => order.items.length > 0)) {
+        setRecovered(session);
+      }
+      setCheckedKey(sessionKey);
+    };
+
+    checkSavedCart();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionKey, checkedKey]);
+
+  // Persist every change once any saved cart for this key has been dealt with
+  useEffect(() => {
+    if (!sessionKey || checkedKey !== sessionKey || recovered) return;
+
+    // The open orders move with the till, so the session they came from is cleared
+    const previousKey = savedKeyRef.current;
+    savedKeyRef.current = sessionKey;
+
+    const persist = async () => {
+      try {
+        if (orders.every(isOrderEmpty)) {
+          await deleteCartSession(sessionKey);
+        } else {
+          await saveCartSession({
+            key: sessionKey,
+            user_id: user.id,
+            location_id: locationId,
+            orders,
+            active_order_id: activeOrderId,
+          });
+        }
+        if (previousKey && previousKey !== sessionKey) {
+          await deleteCartSession(previousKey);
+        }
+      } catch (error) {
+        console.error('Error saving cart session:', error);
+      }
+    };
+
+    persist();
+  }, [orders, activeOrderId, locationId, sessionKey, checkedKey, recovered, user]);
+
+  // Recovered orders are added next to any order already being rung up
+  const handleRestore = () => {
+    if (!recovered) return;
+    const openOrders = ordersRef.current.filter(order => !isOrderEmpty(order));
+    loadOrders(
+      [...openOrders, ...getSessionOrders(recovered)],
+      openOrders.length > 0 ? activeOrderId : recovered.active_order_id || ''
+    );
+    setRecovered(null);
+    toast.success('Recovered orders restored');
+  };
+
+  const handleDiscard = async () => {
+    if (!recovered) return;
+    try {
+      await deleteCartSession(recovered.key);
+    } catch (error) {
+      console.error('Error discarding cart session:', error);
+    }
+    setRecovered(null);
+    toast.success('Recovered orders discarded');
+  };
+
+  const recoveredOrders = recovered ? getSessionOrders(recovered).filter(order => !isOrderEmpty(order)) : [];
+  const itemCount = recoveredOrders.reduce(
+    (sum, order) => sum + order.items.reduce((count, item) => count + item.quantity, 0),
+    0
+  );
+  const customerNames = recoveredOrders
+    .map(order => order.customer?.name)
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <AlertDialog open={!!recovered}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Unfinished orders found</AlertDialogTitle>
+          <AlertDialogDescription>
+            {recoveredOrders.length === 1 ? 'An order' : `${recoveredOrders.length} orders`} with {itemCount} item{itemCount === 1 ? '' : 's'}
+            {customerNames ? ` for ${customerNames}` : ''} {recoveredOrders.length === 1 ? 'was' : 'were'} left open
+            {recovered?.updated_at ? ` on ${new Date(recovered.updated_at).toLocaleString()}` : ''}.
+            {hasOpenItems
+              ? `Add ${recoveredOrders.length === 1 ? 'it' : 'them'} to the open orders, or discard ${recoveredOrders.length === 1 ? 'it' : 'them'}?`
+              : `Restore ${recoveredOrders.length === 1 ? 'it' : 'them'}, or discard and start a new order?`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={handleDiscard}>Discard</AlertDialogCancel>
+          <AlertDialogAction onClick={handleRestore}>{hasOpenItems ? 'Add to Open Orders' : 'Restore'}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CartRecovery;
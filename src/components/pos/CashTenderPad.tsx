@@ -0,0 +1,100 @@
+import React from 'react';
+import { Delete } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { formatCurrencySync } from '@/utils/formatting';
+import { calculateChange, getQuickCashAmounts } from '@/utils/cashUtils';
+
+interface CashTenderPadProps {
+  due: number;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const KEYPAD_KEYS = ['7', '8', '9', '4', '5', '6', '1', '2', '3', '00', '0', '.'];
+
+const CashTenderPad: React.FC<CashTenderPadProps> = ({ due, value, onChange }) => {
+  const { settings } = useBusinessSettings();
+  const precision = settings?.currency_precision ?? 2;
+  const tendered = parseFloat(value) || 0;
+  const change = calculateChange(tendered, due, settings);
+  const quickAmounts = getQuickCashAmounts(due, settings);
+
+  const formatPrice = (price: number): string => {
+    if (!settings) {
+      return price.toFixed(precision);
+    }
+    return formatCurrencySync(price, settings);
+  };
+
+  const handleKey = (key: string) => {
+    if (key === '.' && (value.includes('.') || precision === 0)) return;
+
+    // Don't allow more decimals than the currency supports
+    const [, decimals] = value.split('.');
+    if (decimals !== undefined && decimals.length + key.length > precision) return;
+
+    const next = value === '0' && key !== '.' ? key : value + key;
+    onChange(next);
+  };
+
+  const handleBackspace = () => {
+    onChange(value.slice(0, -1));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3 text-center">
+        <div className="bg-gray-50 rounded-md p-2">
+          <p className="text-xs text-gray-500">Tendered</p>
+          <p className="text-xl font-bold">{formatPrice(tendered)}</p>
+        </div>
+        <div className={`rounded-md p-2 ${change > 0 ? 'bg-green-50' : 'bg-gray-50'}`}>
+          <p className="text-xs text-gray-500">Change Due</p>
+          <p className={`text-xl font-bold ${change > 0 ? 'text-green-600' : ''}`}>{formatPrice(change)}</p>
+        </div>
+      </div>
+
+      {/* Quick denomination buttons */}
+      <div className="grid grid-cols-3 gap-2">
+        {quickAmounts.map((amount, index) => (
+          <Button
+            key={amount}
+            type="button"
+            variant="outline"
+            onClick={() => onChange(amount.toFixed(precision))}
+          >
+            {index === 0 ? `Exact ${formatPrice(amount)}` : formatPrice(amount)}
+          </Button>
+        ))}
+      </div>
+
+      {/* Numeric keypad */}
+      <div className="grid grid-cols-4 gap-2">
+        <div className="col-span-3 grid grid-cols-3 gap-2">
+          {KEYPAD_KEYS.map(key => (
+            <Button
+              key={key}
+              type="button"
+              variant="secondary"
+              className="h-12 text-lg"
+              onClick={() => handleKey(key)}
+            >
+              {key}
+            </Button>
+          ))}
+        </div>
+        <div className="grid grid-rows-2 gap-2">
+          <Button type="button" variant="secondary" className="h-full" onClick={handleBackspace}>
+            <Delete className="h-5 w-5" />
+          </Button>
+          <Button type="button" variant="secondary" className="h-full" onClick={() => onChange('')}>
+            C
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CashTenderPad;
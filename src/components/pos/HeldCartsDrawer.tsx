@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Clock, Search, Trash2, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { HeldCart, listHeldCarts, removeHeldCart } from '@/services/heldCartService';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { formatCurrencySync } from '@/utils/formatting';
+import { calculateCartTotals } from '@/utils/cartUtils';
+
+interface HeldCartsDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onResume: (heldCart: HeldCart) => void;
+}
+
+const HeldCartsDrawer: React.FC<HeldCartsDrawerProps> = ({ open, onOpenChange, onResume }) => {
+  const { settings } = useBusinessSettings();
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadHeldCarts = async () => {
+    setLoading(true);
+    try {
+      setHeldCarts(await listHeldCarts());
+    } catch (error) {
+      console.error('Error loading held carts:', error);
+      toast.error('Failed to load held carts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadHeldCarts();
+    }
+  }, [open]);
+
+  const formatPrice = (price: number): string => {
+    if (!settings) {
+      return price.toFixed(2);
+    }
+    return formatCurrencySync(price, settings);
+  };
+
+  const handleDelete = async (heldCart: HeldCart) => {
+    try {
+      await removeHeldCart(heldCart);
+      setHeldCarts(current => current.filter(item => item.id !== heldCart.id));
+      toast.success(`Deleted held cart "${heldCart.label}"`);
+    } catch (error) {
+      console.error('Error deleting held cart:', error);
+      toast.error('Failed to delete held cart');
+    }
+  };
+
+  const query = searchTerm.toLowerCase();
+  const filteredCarts = heldCarts.filter(heldCart =>
+    !query ||
+    heldCart.label.toLowerCase().includes(query) ||
+    heldCart.customer?.name?.toLowerCase().includes(query) ||
+    heldCart.cart.items.some(item => item.name.toLowerCase().includes(query))
+  );
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange}>
+      <DrawerContent className="max-h-[85vh]">
+        <div className="mx-auto w-full max-w-3xl flex flex-col min-h-0">
+          <DrawerHeader>
+            <DrawerTitle>Held Carts</DrawerTitle>
+            <DrawerDescription>Resume or delete parked orders</DrawerDescription>
+          </DrawerHeader>
+
+          <div className="px-4 pb-2 relative">
+            <Search className="absolute left-6 top-2.5 h-4 w-4 text-gray-500" />
+            <Input
+              type="search"
+              placeholder="Search by label, customer or product..."
+              className="pl-8"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+
+          <div className="overflow-y-auto px-4 pb-6 space-y-2">
+            {loading ? (
+              <div className="flex justify-center items-center h-24">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-sadiid-600"></div>
+              </div>
+            ) : filteredCarts.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-8">No held carts</p>
+            ) : (
+              filteredCarts.map(heldCart => (
+                <div key={heldCart.id} className="flex items-center gap-3 border rounded-md p-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium truncate">{heldCart.label}</h3>
+                      {heldCart.server_transaction_id && (
+                        <Badge variant="secondary">Suspended on server</Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 text-xs text-gray-500 mt-1">
+                      <span className="flex items-center">
+                        <User className="h-3 w-3 mr-1" />
+                        {heldCart.customer?.name || 'Walk-In Customer'}
+                      </span>
+                      <span className="flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {new Date(heldCart.held_at).toLocaleString()}
+                      </span>
+                      <span>{heldCart.cart.items.length} items</span>
+                    </div>
+                  </div>
+                  <span className="font-bold text-blue-600">{formatPrice(calculateCartTotals(heldCart.cart, settings?.currency_precision ?? 2).total)}</span>
+                  <Button size="sm" onClick={() => onResume(heldCart)}>
+                    Resume
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => handleDelete(heldCart)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
+
+export default HeldCartsDrawer;
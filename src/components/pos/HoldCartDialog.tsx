@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface HoldCartDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultLabel: string;
+  saving?: boolean;
+  onConfirm: (label: string) => void;
+}
+
+const HoldCartDialog: React.FC<HoldCartDialogProps> = ({
+  open,
+  onOpenChange,
+  defaultLabel,
+  saving = false,
+  onConfirm,
+}) => {
+  const [label, setLabel] = useState(defaultLabel);
+
+  useEffect(() => {
+    if (open) {
+      setLabel(defaultLabel);
+    }
+  }, [open, defaultLabel]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(label.trim() || defaultLabel);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Hold Cart</DialogTitle>
+            <DialogDescription>
+              Park this order and resume it later from the held carts list.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Label htmlFor="hold-label">Label</Label>
+            <Input
+              id="hold-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Holding...' : 'Hold'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HoldCartDialog;
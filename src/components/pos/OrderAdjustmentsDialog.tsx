@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCart } from '@/context/CartContext';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { TaxRate } from '@/services/taxRateService';
+import { calculateCartTotals, DiscountType } from '@/utils/cartUtils';
+
+// Select value for "no tax"
+const NO_TAX = 'none';
+
+interface OrderAdjustmentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  taxRates: TaxRate[];
+  formatPrice: (price: number) => string;
+}
+
+type OrderAdjustmentsFormProps = Omit<OrderAdjustmentsDialogProps, 'open'>;
+
+// Mounted each time the dialog opens, so it starts from the order's current values
+const OrderAdjustmentsForm: React.FC<OrderAdjustmentsFormProps> = ({
+  onOpenChange,
+  taxRates,
+  formatPrice,
+}) => {
+  const { cart, setDiscount, setOrderTax } = useCart();
+  const { settings } = useBusinessSettings();
+  const [discount, setDiscountValue] = useState(cart.discount ? String(cart.discount) : '');
+  const [discountType, setDiscountType] = useState<DiscountType>(cart.discount_type || 'fixed');
+  const [taxRateId, setTaxRateId] = useState(cart.tax_rate_id ? String(cart.tax_rate_id) : NO_TAX);
+
+  const discountValue = parseFloat(discount) || 0;
+  const selectedRate = taxRates.find(rate => String(rate.id) === taxRateId) || null;
+
+  // Preview the totals with the values being edited
+  const preview = calculateCartTotals({
+    ...cart,
+    discount: discountValue,
+    discount_type: discountType,
+    tax_percent: selectedRate?.amount || 0,
+  }, settings?.currency_precision ?? 2);
+
+  let error: string | null = null;
+  if (discountValue < 0) {
+    error = 'Discount cannot be negative';
+  } else if (discountType === 'percentage' && discountValue > 100) {
+    error = 'Percentage discount cannot exceed 100%';
+  } else if (discountType === 'fixed' && discountValue > preview.subtotal) {
+    error = 'Discount cannot exceed the subtotal';
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+
+    setDiscount(discountValue, discountType);
+    setOrderTax(selectedRate);
+    onOpenChange(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle>Discount &amp; Tax</DialogTitle>
+        <DialogDescription>Apply a discount and tax rate to the whole order.</DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-4">
+        <div>
+          <Label htmlFor="order-discount">Order discount</Label>
+          <div className="flex gap-2">
+            <Input
+              id="order-discount"
+              type="number"
+              min="0"
+              step="any"
+              placeholder="0"
+              value={discount}
+              onChange={(e) => setDiscountValue(e.target.value)}
+              autoFocus
+            />
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={discountType}
+              onValueChange={(value) => value && setDiscountType(value as DiscountType)}
+            >
+              <ToggleGroupItem value="fixed" aria-label="Fixed amount">
+                Fixed
+              </ToggleGroupItem>
+              <ToggleGroupItem value="percentage" aria-label="Percentage">
+                %
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+        </div>
+
+        <div>
+          <Label>Order tax</Label>
+          <Select value={taxRateId} onValueChange={setTaxRateId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TAX}>No tax</SelectItem>
+              {taxRates.map(rate => (
+                <SelectItem key={rate.id} value={String(rate.id)}>
+                  {rate.name} ({rate.amount}%)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {taxRates.length === 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              No tax rates available yet - sync while online to download them.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Discount</span>
+            <span>-{formatPrice(preview.discount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Tax</span>
+            <span>+{formatPrice(preview.tax)}</span>
+          </div>
+          <div className="flex justify-between font-medium">
+            <span>Total</span>
+            <span>{formatPrice(preview.total)}</span>
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!!error}>
+          Apply
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+const OrderAdjustmentsDialog: React.FC<OrderAdjustmentsDialogProps> = ({ open, ...props }) => {
+  return (
+    <Dialog open={open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-w-md">
+        {open && <OrderAdjustmentsForm {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OrderAdjustmentsDialog;
@@ -1,24 +1,71 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useCart } from '@/context/CartContext';
-import { saveSale } from '@/lib/storage';
+import { v4 as uuidv4 } from 'uuid';
 import { toast } from 'sonner';
 import { useNetwork } from '@/context/NetworkContext'; 
-import { createSale } from '@/services/api';
-import { Package, X, Plus, Minus } from 'lucide-react';
+import { SaleData, SalePayment } from '@/services/api';
+import { Package, X, Plus, Minus, PauseCircle, ListRestart, Pencil, FileText, Printer } from 'lucide-react';
 import { formatCurrencySync } from '@/utils/formatting';
 import { useBusinessSettings } from '@/context/BusinessSettingsContext';
 import { useCustomer } from '@/context/CustomerContext';
+import POSPaymentDialog, { CashTenderDetails } from './POSPaymentDialog';
+import HoldCartDialog from './HoldCartDialog';
+import HeldCartsDrawer from './HeldCartsDrawer';
+import { HeldCart, holdCart, removeHeldCart } from '@/services/heldCartService';
+import { getPosPreferences } from '@/lib/posSettings';
+import { deductSaleStock } from '@/services/stockService';
+import { buildSaleProducts } from '@/utils/saleUtils';
+import { isPriceOverridden } from '@/utils/cartUtils';
+import { CartItem } from '@/context/CartContext';
+import CartLineEditDialog from './CartLineEditDialog';
+import OrderAdjustmentsDialog from './OrderAdjustmentsDialog';
+import { getTaxRates, TaxRate } from '@/services/taxRateService';
+import SaveQuotationDialog from './SaveQuotationDialog';
+import {
+  isQuotationConverted,
+  markQuotationConverted,
+  QuotationType,
+  saveQuotation,
+} from '@/services/quotationService';
+import ReceiptPreviewDialog from '@/components/receipt/ReceiptPreviewDialog';
+import { getReceiptSettings } from '@/lib/receiptSettings';
+import { printSaleReceipt } from '@/services/receiptService';
+import { StoredSale } from '@/utils/saleUtils';
+import { getZatcaQrForSale } from '@/utils/zatcaUtils';
+import { saveSaleWithInvoice } from '@/services/invoiceService';
+import { syncSale } from '@/services/saleSyncService';
+import { getCreditStatus } from '@/services/receivableService';
 
 // For product placeholder
 const PLACEHOLDER_SVG = `data:image/svg+xml,%3Csvg width='120' height='120' viewBox='0 0 120 120' xmlns='http://www.w3.org/2000/svg'%3E%3Cpath d='M 20 70 Q 60 20, 100 70' fill='none' stroke='%239e9e9e' stroke-width='4' stroke-linecap='round' stroke-linejoin='round'/%3E%3C/svg%3E`;
 
 const POSOrderDetails = () => {
-  const { cart, getSubtotal, getTotal, updateQuantity, removeItem, clearCart } = useCart();
+  const { cart, getTotals, updateQuantity, updateItem, removeItem, clearCart, loadCart, newOrder, orders, closeOrder } = useCart();
   const { isOnline } = useNetwork();
-  const { selectedCustomer, customers } = useCustomer();
+  const { selectedCustomer, setSelectedCustomer, customers } = useCustomer();
   const { settings } = useBusinessSettings();
   const [processing, setProcessing] = useState(false);
+  const [paymentOpen, setPaymentOpen] = useState(false);
+  const [holdOpen, setHoldOpen] = useState(false);
+  const [holding, setHolding] = useState(false);
+  const [heldCartsOpen, setHeldCartsOpen] = useState(false);
+  const [quotationOpen, setQuotationOpen] = useState(false);
+  const [savingQuotation, setSavingQuotation] = useState(false);
+  const [lastSale, setLastSale] = useState<StoredSale | null>(null);
+  const [receiptSale, setReceiptSale] = useState<StoredSale | null>(null);
+  const [editingItem, setEditingItem] = useState<CartItem | null>(null);
+  const [adjustmentsOpen, setAdjustmentsOpen] = useState(false);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [credit, setCredit] = useState<{ available: number | null } | undefined>(undefined);
+  
+  // Load the tax rate catalogue (cached offline)
+  useEffect(() => {
+    getTaxRates().then(setTaxRates);
+  }, []);
+  
+  const totals = getTotals();
+  const stockCheck = getPosPreferences().stock_check;
   
   // Get Walk-In Customer ID
   const walkInCustomer = customers.find(customer => customer.name === "Walk-In Customer");
@@ -36,7 +83,7 @@ const POSOrderDetails = () => {
     updateQuantity(id, newQuantity);
   };
   
-  const handleProcessSale = async () => {
+  const handlePayNow = async () => {
     if (cart.items.length === 0) {
       toast.error('Cannot create sale with no items');
       return;
@@ -47,51 +94,100 @@ const POSOrderDetails = () => {
       return;
     }
     
+    // Pay later is only for a named customer, up to their credit limit
+    setCredit(undefined);
+    if (selectedCustomer && selectedCustomer.id !== walkInCustomer?.id) {
+      try {
+        setCredit(await getCreditStatus(selectedCustomer));
+      } catch (error) {
+        // Left unset, so the payment dialog won't let anything go unpaid
+        console.error('Error checking customer credit:', error);
+        toast.warning("Couldn't check the customer's credit - the sale must be paid in full");
+      }
+    }
+    
+    setPaymentOpen(true);
+  };
+  
+  const handleProcessSale = async (payments: SalePayment[], cashDetails: CashTenderDetails, creditAmount: number) => {
     setProcessing(true);
     
     try {
+      // A quotation can only become one sale
+      if (cart.quotation_local_id && await isQuotationConverted(cart.quotation_local_id)) {
+        toast.error('This quotation has already been converted to a sale');
+        return;
+      }
+      
       // Prepare sale data
-      const saleData = {
+      const saleData: SaleData = {
         location_id: cart.location_id,
         contact_id: selectedCustomer?.id || walkInCustomer?.id || null,
         transaction_date: new Date().toISOString(),
         status: 'final',
-        products: cart.items.map(item => ({
-          product_id: item.product_id,
-          variation_id: item.variation_id || undefined,
-          quantity: item.quantity,
-          unit_price: item.price,
-          tax_amount: item.tax,
-          discount_amount: item.discount,
-        })),
-        payment: [{
-          amount: getTotal(),
-          method: 'cash',
-        }],
+        products: buildSaleProducts(cart.items),
+        payment: payments,
         discount_amount: cart.discount,
-        tax_amount: cart.tax,
+        discount_type: cart.discount_type,
+        tax_rate_id: cart.tax_rate_id,
+        tax_amount: totals.order_tax,
         sale_note: cart.note || undefined,
+        round_off_amount: cashDetails.round_off_amount || undefined,
+        final_total: totals.total + cashDetails.round_off_amount,
+        tax_breakdown: totals.breakdown,
+        cash_tendered: cashDetails.cash_tendered,
+        change_return: cashDetails.change_return,
+        credit_amount: creditAmount || undefined,
+        customer_name: selectedCustomer?.name || walkInCustomer?.name,
+        client_uuid: uuidv4(),
       };
+      saleData.zatca_qr = getZatcaQrForSale(saleData, settings);
+      
+      // The sale is stored under its invoice number before it goes anywhere, so the
+      // number on the receipt is the one the server gets, online or after a sync
+      const { local_id: saleLocalId, invoice_no } = await saveSaleWithInvoice({ ...saleData, is_synced: 0 });
+      saleData.invoice_no = invoice_no;
       
-      // Different process flows for online vs offline
       if (isOnline) {
-        // Online: Create sale directly through API
-        const result = await createSale(saleData);
+        // Sent through the sync queue, so a timed-out request can't be sent twice
+        const result = await syncSale({ ...saleData, local_id: saleLocalId, is_synced: 0 });
         
-        if (!result.success) {
-          throw new Error(result.error || 'Failed to create sale');
+        if (result === 'synced' || result === 'reconciled') {
+          toast.success('Sale completed successfully');
+        } else {
+          // The number is already issued, so keep the sale for the next sync rather than drop it
+          toast.warning('Sale saved for syncing later');
         }
-        
-        toast.success('Sale completed successfully');
       } else {
-        // Offline: Save to IndexedDB
-        await saveSale(saleData);
         toast.success('Sale saved for syncing when online');
       }
       
-      // Clear cart and show success
+      await deductSaleStock(saleData);
+      
+      if (cart.quotation_local_id) {
+        await markQuotationConverted(cart.quotation_local_id, saleLocalId);
+      }
+      
+      // Receipt for the completed sale, as configured for this till
+      const completedSale: StoredSale = { ...saleData, local_id: saleLocalId };
+      setLastSale(completedSale);
+      const { after_sale } = getReceiptSettings();
+      if (after_sale === 'preview') {
+        setReceiptSale(completedSale);
+      } else if (after_sale === 'print') {
+        printSaleReceipt(completedSale, settings).catch(error => {
+          console.error('Error printing receipt:', error);
+          toast.error('Failed to print receipt');
+        });
+      }
+      
+      if (cashDetails.change_return > 0) {
+        toast.info(`Change due: ${formatPrice(cashDetails.change_return)}`);
+      }
+      
+      // Clear cart and close the payment dialog
       clearCart();
-      toast.success('Sale completed successfully');
+      setPaymentOpen(false);
     } catch (error) {
       console.error('Error processing sale:', error);
       toast.error('Failed to process sale');
@@ -100,11 +196,93 @@ const POSOrderDetails = () => {
     }
   };
   
+  const handleHold = async (label: string) => {
+    setHolding(true);
+    
+    try {
+      const { push_held_carts_to_server } = getPosPreferences();
+      // Park just the cart - the tab's id and name stay with the open order
+      const { id, name, customer, pricing, priced_for, ...cartState } = cart;
+      const held = await holdCart(
+        { label, cart: cartState, customer: selectedCustomer },
+        push_held_carts_to_server && isOnline
+      );
+      
+      // Close the tab if other orders are open, otherwise reuse it for the next customer
+      if (orders.length > 1) {
+        closeOrder(cart.id);
+      } else {
+        clearCart();
+        setSelectedCustomer(null);
+      }
+      setHoldOpen(false);
+      toast.success(`Cart held as "${held.label}"`);
+    } catch (error) {
+      console.error('Error holding cart:', error);
+      toast.error('Failed to hold cart');
+    } finally {
+      setHolding(false);
+    }
+  };
+  
+  const handleSaveQuotation = async (type: QuotationType, expiryDate: string | null) => {
+    if (!cart.location_id) {
+      toast.error('Please select a business location first');
+      return;
+    }
+    
+    setSavingQuotation(true);
+    
+    try {
+      const quotation = await saveQuotation({
+        type,
+        cart,
+        customer: selectedCustomer,
+        contactId: selectedCustomer?.id || walkInCustomer?.id || null,
+        expiryDate,
+        precision: settings?.currency_precision ?? 2,
+      });
+      
+      clearCart();
+      setQuotationOpen(false);
+      const label = type === 'quotation' ? 'Quotation' : 'Draft';
+      toast.success(quotation.is_synced
+        ? `${label} #${quotation.local_id} saved`
+        : `${label} #${quotation.local_id} saved for syncing when online`);
+    } catch (error) {
+      console.error('Error saving quotation:', error);
+      toast.error('Failed to save order');
+    } finally {
+      setSavingQuotation(false);
+    }
+  };
+  
+  const handleResume = async (heldCart: HeldCart) => {
+    try {
+      // Don't overwrite the order being rung up - open the held cart in its own tab
+      if (cart.items.length > 0) {
+        newOrder(heldCart.label);
+      }
+      
+      // Keep the till's current location if the held cart has none
+      loadCart({ ...heldCart.cart, location_id: heldCart.cart.location_id || cart.location_id });
+      setSelectedCustomer(heldCart.customer);
+      await removeHeldCart(heldCart);
+      setHeldCartsOpen(false);
+      toast.success(`Resumed "${heldCart.label}"`);
+    } catch (error) {
+      console.error('Error resuming held cart:', error);
+      toast.error('Failed to resume held cart');
+    }
+  };
+  
+  const getDefaultHoldLabel = () => {
+    const time = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return selectedCustomer ? `${selectedCustomer.name} - ${time}` : `Order ${time}`;
+  };
+  
   // Calculate totals
-  const subtotal = getSubtotal();
-  const discount = cart.discount;
-  const tax = cart.tax;
-  const total = getTotal();
+  const { subtotal, discount, order_tax, total, breakdown } = totals;
 
   return (
     <div className="flex flex-col h-full">
@@ -119,13 +297,43 @@ const POSOrderDetails = () => {
               <div className="flex-1">
                 <div className="flex justify-between">
                   <h3 className="font-medium text-sm">{item.name}</h3>
-                  <button 
-                    onClick={() => removeItem(item.id)} 
-                    className="text-red-500 hover:text-red-700"
-                  >
-                    <X size={16} />
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button 
+                      onClick={() => setEditingItem(item)} 
+                      className="text-gray-500 hover:text-gray-700"
+                      aria-label={`Edit ${item.name}`}
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button 
+                      onClick={() => removeItem(item.id)} 
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
                 </div>
+                {(item.discount > 0 || isPriceOverridden(item) || item.pricing_name || item.note) && (
+                  <div className="text-xs text-gray-500 mt-1 space-x-2">
+                    {item.pricing_name && !isPriceOverridden(item) && (
+                      <span className="text-sadiid-600">{item.pricing_name} price</span>
+                    )}
+                    {isPriceOverridden(item) && (
+                      <span>
+                        <span className="line-through">{formatPrice(item.original_price)}</span> {formatPrice(item.price)}
+                      </span>
+                    )}
+                    {item.discount > 0 && (
+                      <span className="text-green-600">
+                        -{item.discount_type === 'percentage' ? `${item.discount}%` : formatPrice(item.discount)} each
+                      </span>
+                    )}
+                    {item.note && <span className="italic">{item.note}</span>}
+                  </div>
+                )}
+                {stockCheck !== 'off' && item.available_stock != null && item.quantity > item.available_stock && (
+                  <p className="text-xs text-red-500 mt-1">Only {item.available_stock} in stock</p>
+                )}
                 <div className="flex items-center justify-between mt-2">
                   <div className="flex items-center border rounded">
                     <button 
@@ -143,7 +351,7 @@ const POSOrderDetails = () => {
                     </button>
                   </div>
                   <span className="text-blue-500 font-bold">
-                    {formatPrice(item.price * item.quantity)}
+                    {formatPrice(item.total)}
                   </span>
                 </div>
               </div>
@@ -164,25 +372,49 @@ const POSOrderDetails = () => {
           <span className="text-gray-600">Subtotal</span>
           <span>{formatPrice(subtotal)}</span>
         </div>
-        <div className="flex justify-between py-1">
-          <span className="text-gray-600">Discount</span>
-          <span>-{formatPrice(discount)}</span>
-        </div>
-        <div className="flex justify-between py-1">
-          <span className="text-gray-600">Tax</span>
-          <span>+{formatPrice(tax)}</span>
-        </div>
+        <button
+          type="button"
+          className="w-full text-left hover:bg-gray-100 rounded disabled:hover:bg-transparent"
+          onClick={() => setAdjustmentsOpen(true)}
+          disabled={cart.items.length === 0}
+        >
+          <div className="flex justify-between py-1">
+            <span className="text-gray-600 flex items-center">
+              Discount
+              {cart.discount_type === 'percentage' && cart.discount > 0 && ` (${cart.discount}%)`}
+              <Pencil size={12} className="ml-1 text-gray-400" />
+            </span>
+            <span>-{formatPrice(discount)}</span>
+          </div>
+          <div className="flex justify-between py-1">
+            <span className="text-gray-600 flex items-center">
+              Order Tax
+              <Pencil size={12} className="ml-1 text-gray-400" />
+            </span>
+            <span>+{formatPrice(order_tax)}</span>
+          </div>
+        </button>
         <div className="flex justify-between pt-2 border-t border-gray-200">
           <span className="text-lg font-bold">Total</span>
           <span className="text-lg font-bold text-blue-600">{formatPrice(total)}</span>
         </div>
+        {breakdown.length > 0 && (
+          <div className="pt-1 text-xs text-gray-500">
+            {breakdown.map(entry => (
+              <div key={`${entry.tax_rate_id}_${entry.percent}`} className="flex justify-between">
+                <span>{entry.name} ({entry.percent}%)</span>
+                <span>{formatPrice(entry.tax_amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Action Buttons */}
       <div className="mt-6 space-y-3">
         <Button 
           className="w-full bg-blue-500 hover:bg-blue-600 text-white py-6"
-          onClick={handleProcessSale}
+          onClick={handlePayNow}
           disabled={processing || cart.items.length === 0}
         >
           {processing ? 'Processing...' : 'Pay Now'}
@@ -199,12 +431,91 @@ const POSOrderDetails = () => {
           <Button 
             variant="outline" 
             className="w-full border-gray-300"
-            disabled={!isOnline}
+            onClick={() => setHoldOpen(true)}
+            disabled={cart.items.length === 0}
           >
+            <PauseCircle className="h-4 w-4 mr-1" />
             Hold
           </Button>
+          <Button 
+            variant="outline" 
+            className="w-full border-gray-300"
+            onClick={() => setHeldCartsOpen(true)}
+          >
+            <ListRestart className="h-4 w-4 mr-1" />
+            Held
+          </Button>
+          <Button 
+            variant="outline" 
+            className="w-full border-gray-300"
+            onClick={() => setQuotationOpen(true)}
+            disabled={cart.items.length === 0}
+          >
+            <FileText className="h-4 w-4 mr-1" />
+            Quote / Draft
+          </Button>
         </div>
+        {lastSale && (
+          <Button 
+            variant="ghost" 
+            className="w-full text-gray-600"
+            onClick={() => setReceiptSale(lastSale)}
+          >
+            <Printer className="h-4 w-4 mr-1" />
+            Reprint last receipt (#{lastSale.local_id})
+          </Button>
+        )}
       </div>
+      
+      <POSPaymentDialog
+        open={paymentOpen}
+        onOpenChange={setPaymentOpen}
+        total={total}
+        processing={processing}
+        credit={credit}
+        onConfirm={handleProcessSale}
+      />
+      
+      <HoldCartDialog
+        open={holdOpen}
+        onOpenChange={setHoldOpen}
+        defaultLabel={holdOpen ? getDefaultHoldLabel() : ''}
+        saving={holding}
+        onConfirm={handleHold}
+      />
+      
+      <ReceiptPreviewDialog
+        sale={receiptSale}
+        onOpenChange={(open) => !open && setReceiptSale(null)}
+      />
+      
+      <SaveQuotationDialog
+        open={quotationOpen}
+        onOpenChange={setQuotationOpen}
+        saving={savingQuotation}
+        onConfirm={handleSaveQuotation}
+      />
+      
+      <CartLineEditDialog
+        item={editingItem}
+        taxRates={taxRates}
+        onOpenChange={(open) => !open && setEditingItem(null)}
+        formatPrice={formatPrice}
+        onSave={updateItem}
+      />
+      
+      <OrderAdjustmentsDialog
+        open={adjustmentsOpen}
+        onOpenChange={setAdjustmentsOpen}
+        taxRates={taxRates}
+        formatPrice={formatPrice}
+      />
+      
+      <HeldCartsDrawer
+        open={heldCartsOpen}
+        onOpenChange={setHeldCartsOpen}
+        onResume={handleResume}
+      />
     </div>
   );
 };
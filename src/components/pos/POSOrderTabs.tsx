@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCart } from '@/context/CartContext';
+import { cn } from '@/lib/utils';
+
+const POSOrderTabs: React.FC = () => {
+  const { orders, activeOrderId, newOrder, switchOrder, closeOrder, renameOrder } = useCart();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setEditingName(name);
+  };
+
+  const finishRename = () => {
+    if (editingId && editingName.trim()) {
+      renameOrder(editingId, editingName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleClose = (id: string) => {
+    const order = orders.find(item => item.id === id);
+    if (order && order.items.length > 0) {
+      toast.error(`"${order.name}" still has items - complete, hold or clear it first`);
+      return;
+    }
+    closeOrder(id);
+  };
+
+  return (
+    <div className="flex items-center gap-1 mb-4 overflow-x-auto pb-1">
+      {orders.map(order => {
+        const isActive = order.id === activeOrderId;
+        const itemCount = order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+        return (
+          <div
+            key={order.id}
+            className={cn(
+              'flex items-center shrink-0 rounded-md border text-sm cursor-pointer',
+              isActive ? 'bg-blue-50 border-blue-500 text-blue-700' : 'bg-white text-gray-600 hover:bg-gray-50'
+            )}
+            onClick={() => switchOrder(order.id)}
+            onDoubleClick={() => startRename(order.id, order.name)}
+            title={order.customer?.name || 'Walk-In Customer'}
+          >
+            {editingId === order.id ? (
+              <Input
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="h-7 w-28 text-sm"
+                autoFocus
+              />
+            ) : (
+              <span className="pl-3 py-1.5 max-w-[8rem] truncate">{order.name}</span>
+            )}
+            {itemCount > 0 && (
+              <span className="ml-1.5 rounded-full bg-blue-500 text-white text-xs px-1.5">
+                {itemCount}
+              </span>
+            )}
+            <button
+              type="button"
+              className="px-1.5 py-1.5 text-gray-400 hover:text-red-500"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleClose(order.id);
+              }}
+              aria-label={`Close ${order.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        );
+      })}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        onClick={() => newOrder()}
+        aria-label="New order"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default POSOrderTabs;
@@ -0,0 +1,361 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Calculator, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SalePayment } from '@/services/api';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { getPosPreferences } from '@/lib/posSettings';
+import { formatCurrencySync } from '@/utils/formatting';
+import {
+  CREDIT_PAYMENT_METHOD,
+  getPaymentMethods,
+  getRemainingBalance,
+  getTenderedTotal,
+  roundToPrecision,
+} from '@/utils/paymentUtils';
+import { roundCashAmount } from '@/utils/cashUtils';
+import CashTenderPad from './CashTenderPad';
+
+/**
+ * Cash handling details for a completed checkout. These are kept on the
+ * local sale record for the receipt; the payments themselves only carry
+ * the amount applied to the sale.
+ */
+export interface CashTenderDetails {
+  cash_tendered: number;
+  change_return: number;
+  round_off_amount: number;
+}
+
+interface POSPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  total: number;
+  processing?: boolean;
+  // Offered when the sale is for a customer who can buy on account. available is
+  // null when the customer has no credit limit. Without it nothing can be left unpaid.
+  credit?: { available: number | null };
+  // creditAmount is left due on the customer's account and isn't among the payments
+  onConfirm: (payments: SalePayment[], cashDetails: CashTenderDetails, creditAmount: number) => void;
+}
+
+// Reference field shown for each tender type, mapped to the SalePayment field it fills
+const REFERENCE_FIELDS: Record<string, { field: keyof SalePayment; label: string }> = {
+  card: { field: 'card_transaction_number', label: 'Card transaction no.' },
+  cheque: { field: 'cheque_number', label: 'Cheque no.' },
+  bank_transfer: { field: 'bank_account_number', label: 'Bank account no.' },
+};
+
+const POSPaymentDialog: React.FC<POSPaymentDialogProps> = ({
+  open,
+  onOpenChange,
+  total,
+  processing = false,
+  credit,
+  onConfirm,
+}) => {
+  const { settings } = useBusinessSettings();
+  const precision = settings?.currency_precision ?? 2;
+  const paymentMethods = credit
+    ? [...getPaymentMethods(settings), { value: CREDIT_PAYMENT_METHOD, label: 'Pay Later (Credit)' }]
+    : getPaymentMethods(settings);
+  const { allow_partial_payment } = getPosPreferences();
+  const [payments, setPayments] = useState<SalePayment[]>([]);
+  const [cashPadIndex, setCashPadIndex] = useState<number | null>(null);
+  const [cashPadValue, setCashPadValue] = useState('');
+
+  const wasOpen = useRef(false);
+
+  // Start every checkout with a single cash tender for the full amount. Only on opening,
+  // so a settings refresh mid-checkout doesn't wipe the tenders entered so far.
+  useEffect(() => {
+    if (open && !wasOpen.current) {
+      const exact = roundCashAmount(total, settings);
+      setPayments([{ amount: exact, method: 'cash' }]);
+      setCashPadIndex(0);
+      setCashPadValue(exact.toFixed(precision));
+    }
+    wasOpen.current = open;
+  }, [open, total, precision, settings]);
+
+  const formatPrice = (price: number): string => {
+    if (!settings) {
+      return price.toFixed(precision);
+    }
+    return formatCurrencySync(price, settings);
+  };
+
+  // Cash settles to the rounded amount, other tenders settle the exact total
+  const hasCash = payments.some(payment => payment.method === 'cash');
+  const payable = hasCash ? roundCashAmount(total, settings) : roundToPrecision(total, precision);
+  const roundOff = roundToPrecision(payable - total, precision);
+
+  const tendered = getTenderedTotal(payments, precision);
+  const cashTendered = getTenderedTotal(payments.filter(payment => payment.method === 'cash'), precision);
+  const remaining = getRemainingBalance(payable, payments, precision);
+  const excess = Math.max(0, roundToPrecision(tendered - payable, precision));
+
+  // Only cash can be handed back as change
+  const overpaid = excess > cashTendered;
+  const change = overpaid ? 0 : excess;
+  const hasInvalidTender = payments.some(payment => !(payment.amount > 0));
+  const blockedByPartial = remaining > 0 && !allow_partial_payment;
+
+  // Everything left unpaid goes on the customer's account, so it all counts against the limit
+  const creditTendered = getTenderedTotal(payments.filter(payment => payment.method === CREDIT_PAYMENT_METHOD), precision);
+  const unpaid = roundToPrecision(creditTendered + remaining, precision);
+  const overCreditLimit = !!credit && credit.available !== null && unpaid > credit.available;
+  // A walk-in customer, or one whose credit couldn't be checked, has to pay in full
+  const noCreditAccount = unpaid > 0 && !credit;
+
+  const canConfirm = !processing && payments.length > 0 && !hasInvalidTender && !overpaid && !blockedByPartial &&
+    !overCreditLimit && !noCreditAccount;
+
+  const updatePayment = (index: number, changes: Partial<SalePayment>) => {
+    setPayments(current => current.map((payment, i) => (i === index ? { ...payment, ...changes } : payment)));
+  };
+
+  const addPayment = () => {
+    setPayments(current => [
+      ...current,
+      { amount: getRemainingBalance(payable, current, precision), method: 'card' },
+    ]);
+  };
+
+  const removePayment = (index: number) => {
+    setPayments(current => current.filter((_, i) => i !== index));
+    setCashPadIndex(null);
+  };
+
+  const openCashPad = (index: number) => {
+    setCashPadIndex(cashPadIndex === index ? null : index);
+    setCashPadValue(payments[index].amount ? String(payments[index].amount) : '');
+  };
+
+  const handleCashPadChange = (value: string) => {
+    setCashPadValue(value);
+    if (cashPadIndex !== null) {
+      updatePayment(cashPadIndex, { amount: parseFloat(value) || 0 });
+    }
+  };
+
+  // Amount still due when the cash pad's tender is ignored
+  const getCashDue = (index: number): number => {
+    const others = payments.filter((_, i) => i !== index);
+    return getRemainingBalance(payable, others, precision);
+  };
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+
+    // Keep the change out of the cash tenders so payments only record what the till keeps
+    let changeLeft = change;
+    const applied = [...payments].reverse().map(payment => {
+      if (payment.method !== 'cash' || changeLeft <= 0) return payment;
+      const deducted = Math.min(changeLeft, payment.amount);
+      changeLeft = roundToPrecision(changeLeft - deducted, precision);
+      return { ...payment, amount: payment.amount - deducted };
+    }).reverse();
+
+    // Drop reference fields that belong to a different method than the one finally selected
+    const cleaned = applied
+      .filter(payment => payment.amount > 0 && payment.method !== CREDIT_PAYMENT_METHOD)
+      .map(payment => {
+        const reference = REFERENCE_FIELDS[payment.method];
+        return {
+          amount: roundToPrecision(payment.amount, precision),
+          method: payment.method,
+          ...(payment.note && { note: payment.note }),
+          ...(reference && payment[reference.field] && { [reference.field]: payment[reference.field] }),
+        } as SalePayment;
+      });
+
+    onConfirm(cleaned, {
+      cash_tendered: cashTendered,
+      change_return: change,
+      round_off_amount: roundOff,
+    }, unpaid);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Payment</DialogTitle>
+          <DialogDescription>
+            Add one or more tenders to settle {formatPrice(payable)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+          {payments.map((payment, index) => {
+            const reference = REFERENCE_FIELDS[payment.method];
+            return (
+              <div key={index} className="border rounded-md p-3 space-y-3">
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <Label className="text-xs text-gray-500">Method</Label>
+                    <Select
+                      value={payment.method}
+                      onValueChange={(value) => updatePayment(index, { method: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {paymentMethods.map(method => (
+                          <SelectItem key={method.value} value={method.value}>
+                            {method.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex-1">
+                    <Label className="text-xs text-gray-500">Amount</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={Number.isNaN(payment.amount) ? '' : payment.amount}
+                      onChange={(e) => {
+                        updatePayment(index, { amount: parseFloat(e.target.value) });
+                        if (cashPadIndex === index) setCashPadValue(e.target.value);
+                      }}
+                    />
+                  </div>
+                  {payment.method === 'cash' && (
+                    <Button
+                      variant={cashPadIndex === index ? 'secondary' : 'ghost'}
+                      size="icon"
+                      onClick={() => openCashPad(index)}
+                    >
+                      <Calculator className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => removePayment(index)}
+                    disabled={payments.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-3">
+                  {reference && (
+                    <div className="flex-1">
+                      <Label className="text-xs text-gray-500">{reference.label}</Label>
+                      <Input
+                        value={(payment[reference.field] as string) || ''}
+                        onChange={(e) => updatePayment(index, { [reference.field]: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  <div className="flex-1">
+                    <Label className="text-xs text-gray-500">Note</Label>
+                    <Input
+                      value={payment.note || ''}
+                      onChange={(e) => updatePayment(index, { note: e.target.value })}
+                    />
+                  </div>
+                </div>
+                {payment.method === 'cash' && cashPadIndex === index && (
+                  <CashTenderPad
+                    due={getCashDue(index)}
+                    value={cashPadValue}
+                    onChange={handleCashPadChange}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          <Button variant="outline" className="w-full" onClick={addPayment} disabled={remaining <= 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tender
+          </Button>
+        </div>
+
+        {/* Balance Summary */}
+        <div className="bg-gray-50 p-4 rounded-md">
+          <div className="flex justify-between py-1">
+            <span className="text-gray-600">Total</span>
+            <span>{formatPrice(payable)}</span>
+          </div>
+          {roundOff !== 0 && (
+            <div className="flex justify-between py-1">
+              <span className="text-gray-600">Round Off</span>
+              <span>{formatPrice(roundOff)}</span>
+            </div>
+          )}
+          <div className="flex justify-between py-1">
+            <span className="text-gray-600">Tendered</span>
+            <span>{formatPrice(tendered)}</span>
+          </div>
+          <div className="flex justify-between pt-2 border-t border-gray-200">
+            <span className="font-bold">Remaining</span>
+            <span className={`font-bold ${remaining > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatPrice(remaining)}
+            </span>
+          </div>
+          {change > 0 && (
+            <div className="flex justify-between py-1">
+              <span className="font-bold">Change Due</span>
+              <span className="font-bold text-green-600">{formatPrice(change)}</span>
+            </div>
+          )}
+          {overpaid && (
+            <p className="text-sm text-red-600 mt-2">Only cash tenders can exceed the total.</p>
+          )}
+          {blockedByPartial && (
+            <p className="text-sm text-red-600 mt-2">Partial payments are not allowed. Settle the full amount.</p>
+          )}
+          {noCreditAccount && !blockedByPartial && (
+            <p className="text-sm text-red-600 mt-2">
+              This sale can't be left unpaid without a customer account. Settle the full amount.
+            </p>
+          )}
+          {remaining > 0 && allow_partial_payment && !noCreditAccount && (
+            <p className="text-sm text-amber-600 mt-2">The remaining balance will be recorded as due.</p>
+          )}
+          {credit && (
+            <p className={`text-sm mt-2 ${overCreditLimit ? 'text-red-600' : 'text-gray-500'}`}>
+              {credit.available === null
+                ? 'No credit limit for this customer.'
+                : overCreditLimit
+                  ? `The unpaid amount exceeds the customer's available credit of ${formatPrice(credit.available)}.`
+                  : `Available credit: ${formatPrice(credit.available)}`}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+          >
+            {processing ? 'Processing...' : 'Complete Sale'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default POSPaymentDialog;
@@ -2,7 +2,15 @@ import React, { useEffect, useState } from 'react';
 import { toast } from 'sonner';
 import { Package } from 'lucide-react';
 import { useCart } from '@/context/CartContext';
-import { loadProducts, ProductData } from '@/utils/productUtils';
+import {
+  buildCartItem,
+  hasMultipleVariations,
+  loadProducts,
+  ProductData,
+  ProductRecord,
+  ProductVariation,
+} from '@/utils/productUtils';
+import VariationPickerDialog from './VariationPickerDialog';
 import ProductCard from '@/components/products/ProductCard';
 import {
   Pagination,
@@ -23,16 +31,17 @@ interface POSProductGridProps {
 const POSProductGrid: React.FC<POSProductGridProps> = ({ searchTerm = '', categoryId = null }) => {
   const [products, setProducts] = useState<ProductData[]>([]);
   const [loading, setLoading] = useState(true);
+  const [pickingProduct, setPickingProduct] = useState<ProductData | null>(null);
   
   const itemsPerPage = 20; // Adjust based on your UI needs
   
-  const { addItem } = useCart();
+  const { cart, addItem } = useCart();
 
   useEffect(() => {
     const fetchProducts = async () => {
       try {
         setLoading(true);
-        const { products: productData } = await loadProducts(searchTerm, categoryId);
+        const { products: productData } = await loadProducts(searchTerm, categoryId, cart.location_id);
         setProducts(productData);
       } catch (error) {
         console.error('Error loading products:', error);
@@ -43,7 +52,7 @@ const POSProductGrid: React.FC<POSProductGridProps> = ({ searchTerm = '', catego
     };
     
     fetchProducts();
-  }, [searchTerm, categoryId]);
+  }, [searchTerm, categoryId, cart.location_id]);
   
   const {
     currentPage,
@@ -59,19 +68,21 @@ const POSProductGrid: React.FC<POSProductGridProps> = ({ searchTerm = '', catego
   });
 
   const handleAddToCart = (product: ProductData) => {
-    if (product.price) {
-      addItem({
-        product_id: product.id,
-        name: product.name,
-        sku: product.sku,
-        price: typeof product.price === 'string' ? parseFloat(product.price) : product.price,
-        quantity: 1,
-        discount: 0,
-        tax: 0,
-        total: typeof product.price === 'string' ? parseFloat(product.price) : product.price,
-        variation_id: product.variation_id
-      });
-      toast.success(`Added ${product.name} to cart`);
+    // Sizes, colours etc. - let the cashier pick which one is being sold
+    if (hasMultipleVariations(product)) {
+      setPickingProduct(product);
+      return;
+    }
+    
+    addToCart(product);
+  };
+  
+  const addToCart = (product: ProductRecord, variation?: ProductVariation) => {
+    const cartItem = buildCartItem(product, variation, cart.location_id, cart.pricing);
+    if (cartItem) {
+      if (addItem(cartItem)) {
+        toast.success(`Added ${cartItem.name} to cart`);
+      }
     } else {
       toast.error(`Cannot add ${product.name} - no price available`);
     }
@@ -107,6 +118,15 @@ const POSProductGrid: React.FC<POSProductGridProps> = ({ searchTerm = '', catego
         ))}
       </div>
       
+      <VariationPickerDialog
+        product={pickingProduct}
+        onOpenChange={(open) => !open && setPickingProduct(null)}
+        onSelect={(product, variation) => {
+          addToCart(product, variation);
+          setPickingProduct(null);
+        }}
+      />
+      
       {totalPages > 1 && (
         <Pagination className="mt-6">
           <PaginationContent>
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getDefaultExpiryDate, QuotationType } from '@/services/quotationService';
+
+interface SaveQuotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  saving?: boolean;
+  onConfirm: (type: QuotationType, expiryDate: string | null) => void;
+}
+
+type SaveQuotationFormProps = Omit<SaveQuotationDialogProps, 'open'>;
+
+// Mounted each time the dialog opens, so the expiry date starts from today
+const SaveQuotationForm: React.FC<SaveQuotationFormProps> = ({ onOpenChange, saving = false, onConfirm }) => {
+  const [type, setType] = useState<QuotationType>('quotation');
+  const [expiryDate, setExpiryDate] = useState(getDefaultExpiryDate());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(type, type === 'quotation' ? expiryDate || null : null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle>Save Order</DialogTitle>
+        <DialogDescription>
+          Save this order as a quotation for the customer, or as a draft to finish later.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-4">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          className="justify-start"
+          value={type}
+          onValueChange={(value) => value && setType(value as QuotationType)}
+        >
+          <ToggleGroupItem value="quotation">Quotation</ToggleGroupItem>
+          <ToggleGroupItem value="draft">Draft</ToggleGroupItem>
+        </ToggleGroup>
+
+        {type === 'quotation' && (
+          <div>
+            <Label htmlFor="quotation-expiry">Valid until</Label>
+            <Input
+              id="quotation-expiry"
+              type="date"
+              value={expiryDate}
+              onChange={(e) => setExpiryDate(e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving}>
+          {saving ? 'Saving...' : type === 'quotation' ? 'Save Quotation' : 'Save Draft'}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+const SaveQuotationDialog: React.FC<SaveQuotationDialogProps> = ({ open, ...props }) => {
+  return (
+    <Dialog open={open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-w-md">
+        {open && <SaveQuotationForm {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveQuotationDialog;
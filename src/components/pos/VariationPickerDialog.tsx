@@ -0,0 +1,83 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { useCart } from '@/context/CartContext';
+import { formatCurrencySync } from '@/utils/formatting';
+import {
+  getProductVariations,
+  getVariationName,
+  getVariationPrices,
+  getVariationStock,
+  ProductRecord,
+  ProductVariation,
+} from '@/utils/productUtils';
+
+interface VariationPickerDialogProps {
+  product: ProductRecord | null;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (product: ProductRecord, variation: ProductVariation) => void;
+}
+
+const VariationPickerDialog: React.FC<VariationPickerDialogProps> = ({ product, onOpenChange, onSelect }) => {
+  const { settings } = useBusinessSettings();
+  const { cart } = useCart();
+  const variations = product ? getProductVariations(product) : [];
+
+  const formatPrice = (price: number): string => {
+    if (!settings) {
+      return price.toFixed(2);
+    }
+    return formatCurrencySync(price, settings);
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{product?.name}</DialogTitle>
+          <DialogDescription>Choose the variation to add to the order</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto divide-y">
+          {variations.map(variation => {
+            // The price the line will be added at, with the customer's group pricing
+            const { inc_tax: price } = getVariationPrices(variation, cart.pricing);
+            const stock = getVariationStock(variation, cart.location_id);
+
+            return (
+              <button
+                key={variation.id}
+                type="button"
+                className="w-full flex items-center gap-3 py-3 px-2 text-left hover:bg-gray-50 disabled:opacity-50 disabled:hover:bg-transparent"
+                onClick={() => product && onSelect(product, variation)}
+                disabled={!price}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{getVariationName(variation) || product?.name}</div>
+                  <div className="text-xs text-gray-500">SKU: {variation.sub_sku || '-'}</div>
+                </div>
+                {stock !== null && (
+                  <Badge variant={stock > 0 ? 'secondary' : 'destructive'}>
+                    {stock > 0 ? `${stock} in stock` : 'Out of stock'}
+                  </Badge>
+                )}
+                <span className="font-bold text-blue-600 w-24 text-right">
+                  {price ? formatPrice(price) : 'No price'}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VariationPickerDialog;
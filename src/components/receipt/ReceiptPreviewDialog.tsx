@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { getReceiptSettings, ReceiptPaperSize } from '@/lib/receiptSettings';
+import { getSaleReceiptHtml, printSaleReceipt } from '@/services/receiptService';
+import { StoredSale } from '@/utils/saleUtils';
+import { toast } from 'sonner';
+
+// On-screen width of the preview for each paper size
+const PREVIEW_WIDTHS: Record<ReceiptPaperSize, string> = {
+  '58mm': '240px',
+  '80mm': '320px',
+  A4: '100%',
+};
+
+interface ReceiptPreviewDialogProps {
+  sale: StoredSale | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ReceiptPreviewProps = Omit<ReceiptPreviewDialogProps, 'sale'> & { sale: StoredSale };
+
+// Mounted each time the dialog opens, so it starts from the configured paper size
+const ReceiptPreview: React.FC<ReceiptPreviewProps> = ({ sale, onOpenChange }) => {
+  const { settings } = useBusinessSettings();
+  const [paperSize, setPaperSize] = useState<ReceiptPaperSize>(getReceiptSettings().paper_size);
+  const [html, setHtml] = useState('');
+
+  useEffect(() => {
+    const renderReceipt = async () => {
+      try {
+        setHtml(await getSaleReceiptHtml(sale, settings, paperSize));
+      } catch (error) {
+        console.error('Error rendering receipt:', error);
+        toast.error('Failed to render receipt');
+      }
+    };
+
+    renderReceipt();
+  }, [sale, settings, paperSize]);
+
+  const handlePrint = async () => {
+    try {
+      await printSaleReceipt(sale, settings, paperSize);
+    } catch (error) {
+      console.error('Error printing receipt:', error);
+      toast.error('Failed to print receipt');
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Receipt #{sale.invoice_no || sale.local_id}</DialogTitle>
+        <DialogDescription>Preview the receipt and print it on this till's printer.</DialogDescription>
+      </DialogHeader>
+
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        className="justify-start"
+        value={paperSize}
+        onValueChange={(value) => value && setPaperSize(value as ReceiptPaperSize)}
+      >
+        <ToggleGroupItem value="58mm">58mm</ToggleGroupItem>
+        <ToggleGroupItem value="80mm">80mm</ToggleGroupItem>
+        <ToggleGroupItem value="A4">A4</ToggleGroupItem>
+      </ToggleGroup>
+
+      <div className="flex justify-center bg-gray-100 rounded p-3">
+        <iframe
+          title="Receipt preview"
+          srcDoc={html}
+          className="bg-white shadow h-[55vh]"
+          style={{ width: PREVIEW_WIDTHS[paperSize] }}
+        />
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Close
+        </Button>
+        <Button type="button" onClick={handlePrint} disabled={!html}>
+          <Printer className="h-4 w-4 mr-1" />
+          Print
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+const ReceiptPreviewDialog: React.FC<ReceiptPreviewDialogProps> = ({ sale, onOpenChange }) => {
+  return (
+    <Dialog open={!!sale} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        {sale && <ReceiptPreview sale={sale} onOpenChange={onOpenChange} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiptPreviewDialog;
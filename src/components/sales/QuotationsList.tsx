@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { useCart } from '@/context/CartContext';
+import { getSales } from '@/lib/storage';
+import {
+  buildQuotationHtml,
+  isQuotationConverted,
+  isQuotationExpired,
+  StoredQuotation,
+} from '@/services/quotationService';
+import { formatCurrencySync } from '@/utils/formatting';
+import { printHtml } from '@/utils/printUtils';
+import { getSaleType } from '@/utils/saleUtils';
+import { toast } from 'sonner';
+
+const PAGE_SIZE = 10;
+
+const QuotationsList = () => {
+  const { settings } = useBusinessSettings();
+  const { cart, orders, newOrder, loadCart, setCustomer, switchOrder } = useCart();
+  const navigate = useNavigate();
+  const [quotations, setQuotations] = useState<StoredQuotation[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+
+  useEffect(() => {
+    const loadQuotations = async () => {
+      try {
+        const result = await getSales(page, PAGE_SIZE, sale => getSaleType(sale) !== 'final');
+        setQuotations(result.data);
+        setTotalPages(result.totalPages);
+      } catch (error) {
+        console.error('Error loading quotations:', error);
+        toast.error('Failed to load quotations');
+      }
+    };
+
+    loadQuotations();
+  }, [page]);
+
+  const getLabel = (quotation: StoredQuotation) => (quotation.is_quotation ? 'Quotation' : 'Draft');
+
+  const handlePrint = (quotation: StoredQuotation) => {
+    try {
+      printHtml(buildQuotationHtml(quotation, settings));
+    } catch (error) {
+      console.error('Error printing quotation:', error);
+      toast.error('Failed to print');
+    }
+  };
+
+  // Open the quotation in the POS, where completing payment makes it a sale
+  const handleConvert = async (quotation: StoredQuotation) => {
+    const label = `${getLabel(quotation)} #${quotation.local_id}`;
+
+    // The list may be older than a sale completed from it in another tab
+    if (await isQuotationConverted(quotation.local_id)) {
+      toast.error(`${label} has already been converted to a sale`);
+      return;
+    }
+
+    const openOrder = orders.find(order => order.quotation_local_id === quotation.local_id);
+    if (openOrder) {
+      switchOrder(openOrder.id);
+      toast.info(`${label} is already open in the POS`);
+      navigate('/pos');
+      return;
+    }
+
+    // Don't overwrite the order being rung up - open the quotation in its own tab
+    if (cart.items.length > 0) {
+      newOrder(label);
+    }
+
+    loadCart({
+      ...quotation.cart,
+      location_id: quotation.cart.location_id || cart.location_id,
+      quotation_local_id: quotation.local_id,
+    });
+    setCustomer(quotation.customer);
+    toast.success(`${label} opened in the POS`);
+    navigate('/pos');
+  };
+
+  const formatAmount = (amount: number | undefined): string => {
+    if (amount === undefined) return 'N/A';
+    if (!settings) return amount.toFixed(2);
+    return formatCurrencySync(amount, settings);
+  };
+
+  const getStatusBadge = (quotation: StoredQuotation) => {
+    if (quotation.converted_sale_local_id) {
+      return <Badge variant="success">Converted to #{quotation.converted_sale_local_id}</Badge>;
+    }
+    if (isQuotationExpired(quotation)) {
+      return <Badge variant="destructive">Expired</Badge>;
+    }
+    return <Badge variant="outline">Open</Badge>;
+  };
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>ID</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Valid Until</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Total</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {quotations.length > 0 ? (
+              quotations.map(quotation => (
+                <TableRow key={quotation.local_id}>
+                  <TableCell>{quotation.local_id}</TableCell>
+                  <TableCell>{getLabel(quotation)}</TableCell>
+                  <TableCell>{new Date(quotation.transaction_date).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {quotation.expiry_date
+                      ? new Date(`${quotation.expiry_date}T00:00:00`).toLocaleDateString()
+                      : '-'}
+                  </TableCell>
+                  <TableCell>{quotation.customer?.name || 'Walk-in Customer'}</TableCell>
+                  <TableCell>{formatAmount(quotation.final_total)}</TableCell>
+                  <TableCell className="space-x-2">
+                    {getStatusBadge(quotation)}
+                    {!quotation.is_synced && <Badge variant="destructive">Not Synced</Badge>}
+                  </TableCell>
+                  <TableCell className="space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => handlePrint(quotation)}>
+                      Print
+                    </Button>
+                    {!quotation.converted_sale_local_id && quotation.cart && (
+                      <Button
+                        size="sm"
+                        disabled={isQuotationExpired(quotation)}
+                        onClick={() => handleConvert(quotation)}
+                      >
+                        Convert to Sale
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-4 text-gray-500">
+                  No quotations or drafts found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex justify-end gap-2 mt-4">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default QuotationsList;
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import {
+  getReturnedQuantities,
+  recordSaleReturn,
+  SaleReturn,
+} from '@/services/returnService';
+import { formatCurrencySync } from '@/utils/formatting';
+import { getPaymentMethods, roundToPrecision } from '@/utils/paymentUtils';
+import { getLineUnitPriceIncTax, StoredSale } from '@/utils/saleUtils';
+import { toast } from 'sonner';
+
+interface SaleReturnDialogProps {
+  sale: StoredSale | null;
+  onOpenChange: (open: boolean) => void;
+  onReturned: (saleReturn: SaleReturn) => void;
+}
+
+type SaleReturnFormProps = Omit<SaleReturnDialogProps, 'sale'> & { sale: StoredSale };
+
+// Mounted each time the dialog opens, so it starts from the sale's current returns
+const SaleReturnForm: React.FC<SaleReturnFormProps> = ({ sale, onOpenChange, onReturned }) => {
+  const { settings } = useBusinessSettings();
+  const [returned, setReturned] = useState<Record<number, number>>({});
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [refundMethod, setRefundMethod] = useState('cash');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const precision = settings?.currency_precision ?? 2;
+  const paymentMethods = getPaymentMethods(settings);
+
+  useEffect(() => {
+    const loadReturned = async () => {
+      try {
+        setReturned(await getReturnedQuantities(sale.local_id));
+      } catch (error) {
+        console.error('Error loading previous returns:', error);
+      }
+    };
+
+    loadReturned();
+  }, [sale.local_id]);
+
+  const formatPrice = (price: number): string => {
+    if (!settings) {
+      return price.toFixed(2);
+    }
+    return formatCurrencySync(price, settings);
+  };
+
+  const lines = sale.products.map((product, index) => {
+    const remaining = product.quantity - (returned[index] || 0);
+    return {
+      product,
+      index,
+      remaining,
+      price: getLineUnitPriceIncTax(product),
+      quantity: parseFloat(quantities[index]) || 0,
+    };
+  });
+
+  const refundTotal = roundToPrecision(
+    lines.reduce((sum, line) => sum + line.quantity * line.price, 0),
+    precision
+  );
+
+  let error: string | null = null;
+  if (lines.some(line => line.quantity < 0)) {
+    error = 'Quantities cannot be negative';
+  } else if (lines.some(line => line.quantity > line.remaining)) {
+    error = 'Cannot return more than was sold';
+  }
+  const hasLines = lines.some(line => line.quantity > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error || !hasLines) return;
+
+    setSaving(true);
+    try {
+      const saleReturn = await recordSaleReturn({
+        sale_local_id: sale.local_id,
+        location_id: sale.location_id,
+        contact_id: sale.contact_id || sale.customer_id || null,
+        products: lines
+          .filter(line => line.quantity > 0)
+          .map(line => ({
+            line_index: line.index,
+            product_id: line.product.product_id,
+            variation_id: line.product.variation_id,
+            name: line.product.name,
+            quantity: line.quantity,
+            unit_price_inc_tax: line.price,
+          })),
+        refund: { amount: refundTotal, method: refundMethod },
+        total: refundTotal,
+        note: note.trim() || undefined,
+      });
+
+      toast.success(saleReturn.is_synced ? 'Return recorded' : 'Return saved for syncing when possible');
+      onReturned(saleReturn);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error recording return:', error);
+      toast.error('Failed to record return');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle>Return items from sale #{sale.invoice_no || sale.local_id}</DialogTitle>
+        <DialogDescription>
+          Enter the quantities being returned. They are put back into stock at this location.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-4">
+        <div className="max-h-[40vh] overflow-y-auto divide-y">
+          {lines.map(line => (
+            <div key={line.index} className="flex items-center gap-3 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">
+                  {line.product.name || `Product #${line.product.product_id}`}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Sold {line.product.quantity}
+                  {line.remaining < line.product.quantity && ` · ${line.product.quantity - line.remaining} returned`}
+                  {` · ${formatPrice(line.price)} each`}
+                </div>
+              </div>
+              <Input
+                type="number"
+                min="0"
+                max={line.remaining}
+                step="any"
+                placeholder="0"
+                className="w-24"
+                aria-label="Quantity to return"
+                value={quantities[line.index] || ''}
+                onChange={(e) => setQuantities({ ...quantities, [line.index]: e.target.value })}
+                disabled={line.remaining <= 0}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <Label>Refund method</Label>
+          <Select value={refundMethod} onValueChange={setRefundMethod}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {paymentMethods.map(method => (
+                <SelectItem key={method.value} value={method.value}>
+                  {method.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="return-note">Reason / note</Label>
+          <Textarea
+            id="return-note"
+            rows={2}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-between font-medium">
+          <span>Refund</span>
+          <span>{formatPrice(refundTotal)}</span>
+        </div>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!!error || !hasLines || saving}>
+          {saving ? 'Saving...' : 'Record Return'}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+const SaleReturnDialog: React.FC<SaleReturnDialogProps> = ({ sale, ...props }) => {
+  return (
+    <Dialog open={!!sale} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-w-lg">
+        {sale && <SaleReturnForm sale={sale} {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaleReturnDialog;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { useNetwork } from '@/context/NetworkContext';
+import { getSaleReturns } from '@/lib/storage';
+import { SaleReturn, submitSaleReturn } from '@/services/returnService';
+import { formatCurrencySync } from '@/utils/formatting';
+import { getPaymentMethodLabel } from '@/utils/paymentUtils';
+import { toast } from 'sonner';
+
+const PAGE_SIZE = 10;
+
+interface SaleReturnsListProps {
+  // Change to reload, e.g. after a return is recorded
+  refreshKey?: number;
+}
+
+const SaleReturnsList: React.FC<SaleReturnsListProps> = ({ refreshKey }) => {
+  const { settings } = useBusinessSettings();
+  const { isOnline } = useNetwork();
+  const [returns, setReturns] = useState<SaleReturn[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+
+  // Bumped to reload the current page after a sync
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const loadReturns = async () => {
+      try {
+        const result = await getSaleReturns(page, PAGE_SIZE);
+        setReturns(result.data);
+        setTotalPages(result.totalPages);
+      } catch (error) {
+        console.error('Error loading returns:', error);
+        toast.error('Failed to load returns');
+      }
+    };
+
+    loadReturns();
+  }, [page, refreshKey, reloadCount]);
+
+  const handleSync = async (saleReturn: SaleReturn) => {
+    try {
+      const result = await submitSaleReturn(saleReturn.local_id);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to sync return');
+        return;
+      }
+      toast.success('Return synced successfully');
+      setReloadCount(count => count + 1);
+    } catch (error) {
+      console.error('Error syncing return:', error);
+      toast.error('Failed to sync return');
+    }
+  };
+
+  // Refunds are shown as negative amounts to set them apart from sales
+  const formatRefund = (amount: number): string => {
+    if (!settings) {
+      return `-${amount.toFixed(2)}`;
+    }
+    return `-${formatCurrencySync(amount, settings)}`;
+  };
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Return</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Sale</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Refund</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {returns.length > 0 ? (
+              returns.map(saleReturn => (
+                <TableRow key={saleReturn.local_id}>
+                  <TableCell>R-{saleReturn.local_id}</TableCell>
+                  <TableCell>{new Date(saleReturn.transaction_date).toLocaleDateString()}</TableCell>
+                  <TableCell>#{saleReturn.sale_local_id}</TableCell>
+                  <TableCell>
+                    {saleReturn.products.reduce((sum, line) => sum + line.quantity, 0)}
+                  </TableCell>
+                  <TableCell className="text-red-600">
+                    {formatRefund(saleReturn.total)}
+                    <div className="text-xs text-gray-500">
+                      {getPaymentMethodLabel(saleReturn.refund.method, settings)}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={saleReturn.is_synced ? 'success' : 'destructive'}>
+                      {saleReturn.is_synced ? 'Synced' : 'Not Synced'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {!saleReturn.is_synced && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!isOnline}
+                        onClick={() => handleSync(saleReturn)}
+                      >
+                        Sync
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-4 text-gray-500">
+                  No returns found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex justify-end gap-2 mt-4">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SaleReturnsList;
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  formatInvoiceNumber,
+  getInvoiceSettings,
+  InvoiceSettings,
+  isValidInvoiceFormat,
+  saveInvoiceSettings,
+} from '@/lib/invoiceSettings';
+import { checkInvoiceSequence, InvoiceSequenceStatus } from '@/services/invoiceService';
+import { getSelectedLocationId } from '@/services/locationService';
+import { toast } from 'sonner';
+
+const InvoiceNumberSettings = () => {
+  const [invoiceSettings, setInvoiceSettings] = useState<InvoiceSettings>(getInvoiceSettings());
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [status, setStatus] = useState<InvoiceSequenceStatus | null>(null);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const selectedLocationId = await getSelectedLocationId();
+        setLocationId(selectedLocationId);
+        if (selectedLocationId) {
+          setStatus(await checkInvoiceSequence(selectedLocationId));
+        }
+      } catch (error) {
+        console.error('Error checking invoice sequence:', error);
+      }
+    };
+
+    loadStatus();
+  }, [invoiceSettings.device_code]);
+
+  // Fields save when the cashier leaves them rather than on every key
+  const updateSetting = <K extends keyof InvoiceSettings>(key: K, value: InvoiceSettings[K]) => {
+    if (value === getInvoiceSettings()[key]) {
+      return;
+    }
+    if (key === 'format' && !isValidInvoiceFormat(String(value))) {
+      toast.error('The format must include {device}, {location} and {number}');
+      return;
+    }
+    if (key === 'device_code' && !String(value).trim()) {
+      toast.error('Device code is required');
+      return;
+    }
+
+    setInvoiceSettings(saveInvoiceSettings({ [key]: value } as Partial<InvoiceSettings>));
+    toast.success('Invoice settings saved');
+  };
+
+  const nextNumber = formatInvoiceNumber((status?.last_number || 0) + 1, locationId || 0, invoiceSettings);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invoice Numbers</CardTitle>
+        <CardDescription>Numbering of sales made at this till</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="invoice-prefix">Prefix</Label>
+            <Input
+              id="invoice-prefix"
+              defaultValue={invoiceSettings.prefix}
+              onBlur={(e) => updateSetting('prefix', e.target.value.trim())}
+            />
+          </div>
+          <div>
+            <Label htmlFor="invoice-device-code">Device code</Label>
+            <Input
+              id="invoice-device-code"
+              defaultValue={invoiceSettings.device_code}
+              onBlur={(e) => updateSetting('device_code', e.target.value.trim().toUpperCase())}
+            />
+          </div>
+          <div>
+            <Label htmlFor="invoice-format">Format</Label>
+            <Input
+              id="invoice-format"
+              defaultValue={invoiceSettings.format}
+              onBlur={(e) => updateSetting('format', e.target.value.trim())}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {'{prefix}, {device}, {location}, {year}, {number} - {device}, {location} and {number} are required'}
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="invoice-number-length">Number digits</Label>
+            <Input
+              id="invoice-number-length"
+              type="number"
+              min={1}
+              max={12}
+              defaultValue={invoiceSettings.number_length}
+              onBlur={(e) => updateSetting('number_length', Math.min(12, Math.max(1, Number(e.target.value) || 1)))}
+            />
+          </div>
+        </div>
+        {locationId ? (
+          <div className="text-sm space-y-1">
+            <p>Next invoice: <span className="font-medium">{nextNumber}</span></p>
+            {status && status.last_number > 0 && (
+              <p className={status.missing.length > 0 ? 'text-red-600' : 'text-gray-500'}>
+                {status.issued} issued at this location
+                {status.missing.length > 0
+                  ? ` - missing from the audit: ${status.missing.join(', ')}`
+                  : ', no gaps'}
+              </p>
+            )}
+            {status && status.skipped.length > 0 && (
+              <p className="text-gray-500">
+                Skipped because another device code already issued them: {status.skipped.join(', ')}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Select a business location to see the next invoice number.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvoiceNumberSettings;
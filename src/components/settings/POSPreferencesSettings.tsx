@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getPosPreferences, savePosPreferences, PosPreferences, StockCheckMode } from '@/lib/posSettings';
+import { toast } from 'sonner';
+
+const POSPreferencesSettings = () => {
+  const [preferences, setPreferences] = useState<PosPreferences>(getPosPreferences());
+
+  const updatePreference = <K extends keyof PosPreferences>(key: K, value: PosPreferences[K]) => {
+    const updated = savePosPreferences({ [key]: value } as Partial<PosPreferences>);
+    setPreferences(updated);
+    toast.success('POS preferences saved');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Checkout</CardTitle>
+        <CardDescription>Checkout rules applied at this till</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="allow-partial-payment">Allow partial payments</Label>
+            <p className="text-sm text-gray-500">
+              Complete a sale before the full amount is tendered and record the rest as due.
+            </p>
+          </div>
+          <Switch
+            id="allow-partial-payment"
+            checked={preferences.allow_partial_payment}
+            onCheckedChange={(checked) => updatePreference('allow_partial_payment', checked)}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="push-held-carts">Save held carts to the server</Label>
+            <p className="text-sm text-gray-500">
+              When online, also record held carts in the ERP as suspended sales.
+            </p>
+          </div>
+          <Switch
+            id="push-held-carts"
+            checked={preferences.push_held_carts_to_server}
+            onCheckedChange={(checked) => updatePreference('push_held_carts_to_server', checked)}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="stock-check">When stock runs out</Label>
+            <p className="text-sm text-gray-500">
+              What to do when a line asks for more than this location has in stock.
+            </p>
+          </div>
+          <Select
+            value={preferences.stock_check}
+            onValueChange={(value) => updatePreference('stock_check', value as StockCheckMode)}
+          >
+            <SelectTrigger id="stock-check" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Allow</SelectItem>
+              <SelectItem value="warn">Warn</SelectItem>
+              <SelectItem value="block">Block</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default POSPreferencesSettings;
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getReceiptSettings,
+  ReceiptAfterSale,
+  ReceiptPaperSize,
+  ReceiptPrinterType,
+  ReceiptSettings,
+  saveReceiptSettings,
+} from '@/lib/receiptSettings';
+import { getPrinterTransport, isRawPrinter } from '@/services/receiptService';
+import { isWebSerialSupported, isWebUsbSupported } from '@/services/printerTransport';
+import { toast } from 'sonner';
+
+const ReceiptPrintSettings = () => {
+  const [receiptSettings, setReceiptSettings] = useState<ReceiptSettings>(getReceiptSettings());
+
+  const updateSetting = <K extends keyof ReceiptSettings>(key: K, value: ReceiptSettings[K]) => {
+    const updated = saveReceiptSettings({ [key]: value } as Partial<ReceiptSettings>);
+    setReceiptSettings(updated);
+    toast.success('Receipt settings saved');
+  };
+
+  // Text fields save when the cashier leaves the field rather than on every key
+  const updateText = (key: 'header_text' | 'footer_text' | 'bridge_url' | 'logo_url', value: string) => {
+    if (value !== getReceiptSettings()[key]) {
+      updateSetting(key, value);
+    }
+  };
+
+  // USB and serial printers must be picked from a click before receipts can print to them
+  const handleConnect = async () => {
+    try {
+      const transport = await getPrinterTransport();
+      toast.success(`${transport.name} printer connected`);
+    } catch (error) {
+      console.error('Error connecting printer:', error);
+      toast.error('Failed to connect printer');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Receipts</CardTitle>
+        <CardDescription>How receipts are printed at this till</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="receipt-paper-size">Paper size</Label>
+            <p className="text-sm text-gray-500">Thermal roll width, or A4 for a full page printer.</p>
+          </div>
+          <Select
+            value={receiptSettings.paper_size}
+            onValueChange={(value) => updateSetting('paper_size', value as ReceiptPaperSize)}
+          >
+            <SelectTrigger id="receipt-paper-size" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="58mm">58mm</SelectItem>
+              <SelectItem value="80mm">80mm</SelectItem>
+              <SelectItem value="A4">A4</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="receipt-after-sale">After a sale</Label>
+            <p className="text-sm text-gray-500">Show a preview, print straight away, or do nothing.</p>
+          </div>
+          <Select
+            value={receiptSettings.after_sale}
+            onValueChange={(value) => updateSetting('after_sale', value as ReceiptAfterSale)}
+          >
+            <SelectTrigger id="receipt-after-sale" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="preview">Preview</SelectItem>
+              <SelectItem value="print">Print</SelectItem>
+              <SelectItem value="none">Nothing</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="receipt-printer-type">Printer</Label>
+            <p className="text-sm text-gray-500">Browser printing, or raw ESC/POS to a thermal printer.</p>
+          </div>
+          <Select
+            value={receiptSettings.printer_type}
+            onValueChange={(value) => updateSetting('printer_type', value as ReceiptPrinterType)}
+          >
+            <SelectTrigger id="receipt-printer-type" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="browser">Browser</SelectItem>
+              <SelectItem value="usb" disabled={!isWebUsbSupported()}>USB</SelectItem>
+              <SelectItem value="serial" disabled={!isWebSerialSupported()}>Serial</SelectItem>
+              <SelectItem value="network">Network bridge</SelectItem>
+              <SelectItem value="file">Download file</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {receiptSettings.printer_type === 'network' && (
+          <div>
+            <Label htmlFor="receipt-bridge-url">Bridge URL</Label>
+            <Input
+              id="receipt-bridge-url"
+              defaultValue={receiptSettings.bridge_url}
+              onBlur={(e) => updateText('bridge_url', e.target.value)}
+            />
+          </div>
+        )}
+        {receiptSettings.printer_type === 'serial' && (
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="receipt-baud-rate">Baud rate</Label>
+            <Select
+              value={String(receiptSettings.serial_baud_rate)}
+              onValueChange={(value) => updateSetting('serial_baud_rate', Number(value))}
+            >
+              <SelectTrigger id="receipt-baud-rate" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="9600">9600</SelectItem>
+                <SelectItem value="19200">19200</SelectItem>
+                <SelectItem value="38400">38400</SelectItem>
+                <SelectItem value="115200">115200</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {isRawPrinter(receiptSettings.printer_type) && (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="receipt-cash-drawer">Open cash drawer</Label>
+                <p className="text-sm text-gray-500">Kick the drawer connected to the printer on every receipt.</p>
+              </div>
+              <Switch
+                id="receipt-cash-drawer"
+                checked={receiptSettings.open_cash_drawer}
+                onCheckedChange={(checked) => updateSetting('open_cash_drawer', checked)}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="receipt-arabic-image">Print Arabic as images</Label>
+                <p className="text-sm text-gray-500">For printers that can't join Arabic letters themselves.</p>
+              </div>
+              <Switch
+                id="receipt-arabic-image"
+                checked={receiptSettings.arabic_as_image}
+                onCheckedChange={(checked) => updateSetting('arabic_as_image', checked)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="receipt-logo-url">Logo URL</Label>
+              <Input
+                id="receipt-logo-url"
+                defaultValue={receiptSettings.logo_url}
+                placeholder="Optional image printed above the receipt"
+                onBlur={(e) => updateText('logo_url', e.target.value)}
+              />
+            </div>
+            <Button type="button" variant="outline" onClick={handleConnect}>
+              Connect printer
+            </Button>
+          </>
+        )}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="receipt-tax-breakdown">Show tax breakdown</Label>
+            <p className="text-sm text-gray-500">List the tax charged at each rate.</p>
+          </div>
+          <Switch
+            id="receipt-tax-breakdown"
+            checked={receiptSettings.show_tax_breakdown}
+            onCheckedChange={(checked) => updateSetting('show_tax_breakdown', checked)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="receipt-header">Header text</Label>
+          <Input
+            id="receipt-header"
+            defaultValue={receiptSettings.header_text}
+            placeholder="e.g. phone number or tax registration"
+            onBlur={(e) => updateText('header_text', e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="receipt-footer">Footer text</Label>
+          <Input
+            id="receipt-footer"
+            defaultValue={receiptSettings.footer_text}
+            onBlur={(e) => updateText('footer_text', e.target.value)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReceiptPrintSettings;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { clearUnknownScans, getUnknownScans } from '@/lib/storage';
+import { toast } from 'sonner';
+
+interface UnknownScan {
+  id?: number;
+  code: string;
+  scanned_at: string;
+}
+
+const UnknownScansSettings = () => {
+  const [scans, setScans] = useState<UnknownScan[]>([]);
+
+  useEffect(() => {
+    const loadScans = async () => {
+      try {
+        setScans(await getUnknownScans());
+      } catch (error) {
+        console.error('Error loading unknown scans:', error);
+      }
+    };
+
+    loadScans();
+  }, []);
+
+  const handleClear = async () => {
+    try {
+      await clearUnknownScans();
+      setScans([]);
+      toast.success('Unknown scans cleared');
+    } catch (error) {
+      console.error('Error clearing unknown scans:', error);
+      toast.error('Failed to clear unknown scans');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Unknown Scans</CardTitle>
+          <CardDescription>Scanned codes that didn't match any product</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleClear} disabled={scans.length === 0}>
+          Clear
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {scans.length === 0 ? (
+          <p className="text-sm text-gray-500">No unknown scans</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto divide-y text-sm">
+            {scans.map(scan => (
+              <div key={scan.id} className="flex justify-between py-2">
+                <span className="font-mono">{scan.code}</span>
+                <span className="text-gray-500">{new Date(scan.scanned_at).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnknownScansSettings;
@@ -1,5 +1,16 @@
-import React, { createContext, useContext, useReducer, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, ReactNode, useEffect, useRef } from 'react';
 import { getSelectedLocationId } from '@/services/locationService';
+import type { Customer } from '@/context/CustomerContext';
+import { CustomerPricing, getCustomerPricing } from '@/services/customerGroupService';
+import { CartPriceChange, repriceCartItems } from '@/utils/productUtils';
+import { formatCurrencySync } from '@/utils/formatting';
+import { subscribeToSync } from '@/services/sync';
+import { applyLineTotals, calculateCartTotals, CartTotals, DiscountType } from '@/utils/cartUtils';
+import type { TaxRate } from '@/services/taxRateService';
+import type { TaxType } from '@/utils/taxUtils';
+import { useBusinessSettings } from '@/context/BusinessSettingsContext';
+import { getPosPreferences } from '@/lib/posSettings';
+import { toast } from 'sonner';
 
 export interface CartItem {
   id: number;
@@ -8,115 +19,356 @@ export interface CartItem {
   sku: string;
   price: number;
   quantity: number;
+  // Line discount: an amount per unit, or a percentage when discount_type is 'percentage'
   discount: number;
+  discount_type?: DiscountType;
+  // Line tax amount, worked out from tax_percent and tax_type
   tax: number;
+  tax_rate_id?: number | null;
+  tax_name?: string;
+  tax_percent?: number;
+  // Whether price already includes the tax (defaults to exclusive)
+  tax_type?: TaxType;
+  // Line total after discount, including tax
   total: number;
   variation_id?: number;
+  // Catalogue price when the cashier overrides the unit price
+  original_price?: number;
+  // Stock at the order's location when the line was added, or null if stock isn't tracked
+  available_stock?: number | null;
+  note?: string;
+  // Customer group or selling price group the line is priced with
+  pricing_name?: string;
 }
 
-interface CartState {
+export type CartItemChanges = Partial<
+  Pick<CartItem, 'price' | 'discount' | 'discount_type' | 'tax_rate_id' | 'tax_name' | 'tax_percent' | 'note'>
+>;
+
+export interface CartState {
   items: CartItem[];
+  // Order discount: an amount, or a percentage of the subtotal when discount_type is 'percentage'
   discount: number;
-  tax: number;
+  discount_type?: DiscountType;
+  // Order tax rate, with its percentage kept so totals work offline
+  tax_rate_id?: number | null;
+  tax_name?: string;
+  tax_percent?: number;
   note: string;
   location_id: number | null;
+  // Quotation or draft this cart was opened from, marked converted once the sale completes
+  quotation_local_id?: number | null;
+}
+
+// An open order in the POS - its own cart plus the customer it is for
+export interface CartOrder extends CartState {
+  id: string;
+  name: string;
+  customer: Customer | null;
+  // The customer's group pricing, applied to lines as they are added
+  pricing?: CustomerPricing | null;
+  // Customer the lines were last priced for - see getPricingKey
+  priced_for?: string;
+}
+
+export interface CartCollectionState {
+  orders: CartOrder[];
+  activeOrderId: string;
+  // Location applied to new orders (the till's selected location)
+  default_location_id: number | null;
 }
 
 type CartAction =
   | { type: 'ADD_ITEM'; payload: CartItem }
   | { type: 'UPDATE_QUANTITY'; payload: { id: number; quantity: number } }
+  | { type: 'UPDATE_ITEM'; payload: { id: number; changes: CartItemChanges } }
   | { type: 'REMOVE_ITEM'; payload: { id: number } }
   | { type: 'CLEAR_CART' }
-  | { type: 'SET_DISCOUNT'; payload: number }
-  | { type: 'SET_TAX'; payload: number }
+  | { type: 'SET_DISCOUNT'; payload: { amount: number; type: DiscountType } }
+  | { type: 'SET_ORDER_TAX'; payload: TaxRate | null }
   | { type: 'SET_NOTE'; payload: string }
-  | { type: 'SET_LOCATION'; payload: number };
+  | { type: 'SET_LOCATION'; payload: number }
+  | { type: 'SET_CUSTOMER'; payload: Customer | null }
+  | { type: 'LOAD_CART'; payload: CartState };
+
+type CartCollectionAction =
+  | CartAction
+  | { type: 'NEW_ORDER'; payload: CartOrder }
+  | { type: 'SWITCH_ORDER'; payload: { id: string } }
+  | { type: 'CLOSE_ORDER'; payload: { id: string } }
+  | { type: 'RENAME_ORDER'; payload: { id: string; name: string } }
+  | { type: 'LOAD_ORDERS'; payload: { orders: CartOrder[]; activeOrderId: string } }
+  | { type: 'REPLACE_CUSTOMER'; payload: { temporaryId: number; customer: Customer } }
+  | {
+      type: 'SET_PRICING';
+      payload: { id: string; pricedFor: string; pricing: CustomerPricing | null; changes: CartPriceChange[] };
+    };
 
-const initialState: CartState = {
+const emptyCart = (locationId: number | null): CartState => ({
   items: [],
   discount: 0,
-  tax: 0,
+  discount_type: 'fixed',
+  tax_rate_id: null,
+  tax_name: undefined,
+  tax_percent: 0,
   note: '',
-  location_id: parseInt(localStorage.getItem('selected_location_id') || '0') || null
+  location_id: locationId,
+  quotation_local_id: null
+});
+
+const createOrder = (name: string, locationId: number | null): CartOrder => ({
+  ...emptyCart(locationId),
+  id: `order_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`,
+  name,
+  customer: null,
+  pricing: null,
+  priced_for: ''
+});
+
+// Prices depend on the customer's group, so an order is re-priced when either changes
+const getPricingKey = (customer: Customer | null): string => {
+  return customer ? `${customer.id}:${customer.customer_group_id ?? ''}` : '';
+};
+
+// Pick the lowest free "Order N" name so names stay short as tabs are closed
+const getNextOrderName = (orders: CartOrder[]): string => {
+  const names = new Set(orders.map(order => order.name));
+  let index = 1;
+  while (names.has(`Order ${index}`)) {
+    index++;
+  }
+  return `Order ${index}`;
 };
 
-const cartReducer = (state: CartState, action: CartAction): CartState => {
+const storedLocationId = parseInt(localStorage.getItem('selected_location_id') || '0') || null;
+const firstOrder = createOrder('Order 1', storedLocationId);
+
+const initialState: CartCollectionState = {
+  orders: [firstOrder],
+  activeOrderId: firstOrder.id,
+  default_location_id: storedLocationId
+};
+
+// Reducer for a single order
+const orderReducer = (state: CartOrder, action: CartAction): CartOrder => {
   switch (action.type) {
     case 'ADD_ITEM': {
       // Check if item already exists
-      const existingIndex = state.items.findIndex(item => 
-        item.product_id === action.payload.product_id && 
+      const existingIndex = state.items.findIndex(item =>
+        item.product_id === action.payload.product_id &&
         item.variation_id === action.payload.variation_id
       );
-      
+
       if (existingIndex >= 0) {
         // Update existing item quantity
-        const updatedItems = [...state.items];
-        updatedItems[existingIndex].quantity += action.payload.quantity;
-        updatedItems[existingIndex].total = 
-          updatedItems[existingIndex].price * updatedItems[existingIndex].quantity;
-        
+        const updatedItems = state.items.map((item, index) => {
+          if (index !== existingIndex) return item;
+          return applyLineTotals({ ...item, quantity: item.quantity + action.payload.quantity });
+        });
+
         return { ...state, items: updatedItems };
       } else {
         // Add new item
-        return { ...state, items: [...state.items, action.payload] };
+        return { ...state, items: [...state.items, applyLineTotals(action.payload)] };
       }
     }
-    
+
     case 'UPDATE_QUANTITY': {
       const updatedItems = state.items.map(item => {
         if (item.id === action.payload.id) {
-          const newQuantity = action.payload.quantity;
-          return {
-            ...item,
-            quantity: newQuantity,
-            total: item.price * newQuantity
-          };
+          return applyLineTotals({ ...item, quantity: action.payload.quantity });
         }
         return item;
       });
-      
+
       return { ...state, items: updatedItems };
     }
-    
+
+    case 'UPDATE_ITEM': {
+      const updatedItems = state.items.map(item => {
+        if (item.id !== action.payload.id) return item;
+
+        const updated = { ...item, ...action.payload.changes };
+        // Remember the catalogue price the first time the price is overridden
+        if (action.payload.changes.price !== undefined && updated.original_price === undefined) {
+          updated.original_price = item.price;
+        }
+        return applyLineTotals(updated);
+      });
+
+      return { ...state, items: updatedItems };
+    }
+
     case 'REMOVE_ITEM':
       return {
         ...state,
         items: state.items.filter(item => item.id !== action.payload.id)
       };
-    
+
     case 'CLEAR_CART':
-      return initialState;
-    
+      // Keep the order's identity, customer and location - only the cart is emptied
+      return { ...state, ...emptyCart(state.location_id) };
+
     case 'SET_DISCOUNT':
-      return { ...state, discount: action.payload };
-    
-    case 'SET_TAX':
-      return { ...state, tax: action.payload };
-    
+      return { ...state, discount: action.payload.amount, discount_type: action.payload.type };
+
+    case 'SET_ORDER_TAX':
+      return {
+        ...state,
+        tax_rate_id: action.payload?.id ?? null,
+        tax_name: action.payload?.name,
+        tax_percent: action.payload?.amount ?? 0
+      };
+
     case 'SET_NOTE':
       return { ...state, note: action.payload };
-    
+
     case 'SET_LOCATION':
       return { ...state, location_id: action.payload };
-    
+
+    case 'SET_CUSTOMER':
+      return { ...state, customer: action.payload };
+
+    case 'LOAD_CART':
+      // Only take the cart fields so a loaded cart never replaces the order's identity
+      return {
+        ...state,
+        items: action.payload.items,
+        discount: action.payload.discount,
+        discount_type: action.payload.discount_type || 'fixed',
+        tax_rate_id: action.payload.tax_rate_id ?? null,
+        tax_name: action.payload.tax_name,
+        tax_percent: action.payload.tax_percent || 0,
+        note: action.payload.note,
+        location_id: action.payload.location_id,
+        quotation_local_id: action.payload.quotation_local_id ?? null
+      };
+
     default:
       return state;
   }
 };
 
+const cartReducer = (state: CartCollectionState, action: CartCollectionAction): CartCollectionState => {
+  switch (action.type) {
+    case 'NEW_ORDER':
+      return {
+        ...state,
+        orders: [...state.orders, action.payload],
+        activeOrderId: action.payload.id
+      };
+
+    case 'SWITCH_ORDER':
+      if (!state.orders.some(order => order.id === action.payload.id)) {
+        return state;
+      }
+      return { ...state, activeOrderId: action.payload.id };
+
+    case 'CLOSE_ORDER': {
+      const index = state.orders.findIndex(order => order.id === action.payload.id);
+      if (index < 0) return state;
+
+      const orders = state.orders.filter(order => order.id !== action.payload.id);
+
+      // Always keep one order open
+      if (orders.length === 0) {
+        const order = createOrder('Order 1', state.default_location_id);
+        return { ...state, orders: [order], activeOrderId: order.id };
+      }
+
+      const activeOrderId = state.activeOrderId === action.payload.id
+        ? orders[Math.min(index, orders.length - 1)].id
+        : state.activeOrderId;
+
+      return { ...state, orders, activeOrderId };
+    }
+
+    case 'RENAME_ORDER':
+      return {
+        ...state,
+        orders: state.orders.map(order =>
+          order.id === action.payload.id ? { ...order, name: action.payload.name } : order
+        )
+      };
+
+    case 'REPLACE_CUSTOMER':
+      return {
+        ...state,
+        orders: state.orders.map(order =>
+          order.customer?.id === action.payload.temporaryId ? { ...order, customer: action.payload.customer } : order
+        )
+      };
+
+    case 'SET_PRICING':
+      return {
+        ...state,
+        orders: state.orders.map(order => {
+          if (order.id !== action.payload.id) return order;
+
+          const items = order.items.map(item => {
+            const change = action.payload.changes.find(candidate => candidate.id === item.id);
+            // Skip lines the cashier has re-priced since the change was worked out
+            if (!change || item.price !== change.old_price || item.original_price !== undefined) {
+              return item;
+            }
+            return applyLineTotals({ ...item, price: change.new_price, pricing_name: change.pricing_name });
+          });
+          return { ...order, items, pricing: action.payload.pricing, priced_for: action.payload.pricedFor };
+        })
+      };
+
+    case 'LOAD_ORDERS':
+      if (action.payload.orders.length === 0) return state;
+      return {
+        ...state,
+        orders: action.payload.orders,
+        activeOrderId: action.payload.orders.some(order => order.id === action.payload.activeOrderId)
+          ? action.payload.activeOrderId
+          : action.payload.orders[0].id
+      };
+
+    default: {
+      // Everything else applies to the active order
+      const nextState = action.type === 'SET_LOCATION'
+        ? { ...state, default_location_id: action.payload }
+        : state;
+
+      return {
+        ...nextState,
+        orders: state.orders.map(order =>
+          order.id === state.activeOrderId ? orderReducer(order, action) : order
+        )
+      };
+    }
+  }
+};
+
 interface CartContextType {
-  cart: CartState;
-  addItem: (item: Omit<CartItem, 'id'>) => void;
+  cart: CartOrder;
+  orders: CartOrder[];
+  activeOrderId: string;
+  // The till's selected location, which new orders are rung up at
+  locationId: number | null;
+  // Returns false if the item was refused (not enough stock)
+  addItem: (item: Omit<CartItem, 'id'>) => boolean;
   updateQuantity: (id: number, quantity: number) => void;
+  updateItem: (id: number, changes: CartItemChanges) => void;
   removeItem: (id: number) => void;
   clearCart: () => void;
-  setDiscount: (amount: number) => void;
-  setTax: (amount: number) => void;
+  setDiscount: (amount: number, type?: DiscountType) => void;
+  setOrderTax: (taxRate: TaxRate | null) => void;
   setNote: (note: string) => void;
   setLocation: (id: number) => void;
+  setCustomer: (customer: Customer | null) => void;
+  loadCart: (state: CartState) => void;
+  newOrder: (name?: string) => void;
+  switchOrder: (id: string) => void;
+  closeOrder: (id: string) => void;
+  renameOrder: (id: string, name: string) => void;
+  loadOrders: (orders: CartOrder[], activeOrderId: string) => void;
   getSubtotal: () => number;
   getTotal: () => number;
+  getTotals: () => CartTotals;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -134,50 +386,172 @@ interface CartProviderProps {
 }
 
 export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
-  const [cart, dispatch] = useReducer(cartReducer, initialState);
-  
+  const [state, dispatch] = useReducer(cartReducer, initialState);
+  const { settings } = useBusinessSettings();
+  const cart = state.orders.find(order => order.id === state.activeOrderId) || state.orders[0];
+
+  // Warn about or refuse a quantity beyond the line's available stock, per the POS preference
+  const checkStock = (item: Pick<CartItem, 'name' | 'available_stock'>, quantity: number): boolean => {
+    const mode = getPosPreferences().stock_check;
+    if (mode === 'off' || item.available_stock == null || quantity <= item.available_stock) {
+      return true;
+    }
+
+    const message = `Only ${item.available_stock} of ${item.name} in stock`;
+    if (mode === 'block') {
+      toast.error(message);
+      return false;
+    }
+    toast.warning(message);
+    return true;
+  };
+
   const addItem = (item: Omit<CartItem, 'id'>) => {
+    const existing = cart.items.find(line =>
+      line.product_id === item.product_id && line.variation_id === item.variation_id
+    );
+    if (!checkStock(item, (existing?.quantity || 0) + item.quantity)) {
+      return false;
+    }
+
     const newItem = { ...item, id: Date.now() };
     dispatch({ type: 'ADD_ITEM', payload: newItem as CartItem });
+    return true;
   };
-  
+
   const updateQuantity = (id: number, quantity: number) => {
+    const item = cart.items.find(line => line.id === id);
+    if (item && quantity > item.quantity && !checkStock(item, quantity)) {
+      return;
+    }
+
     dispatch({ type: 'UPDATE_QUANTITY', payload: { id, quantity } });
   };
-  
+
+  const updateItem = (id: number, changes: CartItemChanges) => {
+    dispatch({ type: 'UPDATE_ITEM', payload: { id, changes } });
+  };
+
   const removeItem = (id: number) => {
     dispatch({ type: 'REMOVE_ITEM', payload: { id } });
   };
-  
+
   const clearCart = () => {
     dispatch({ type: 'CLEAR_CART' });
   };
-  
-  const setDiscount = (amount: number) => {
-    dispatch({ type: 'SET_DISCOUNT', payload: amount });
+
+  const setDiscount = (amount: number, type: DiscountType = 'fixed') => {
+    dispatch({ type: 'SET_DISCOUNT', payload: { amount, type } });
   };
-  
-  const setTax = (amount: number) => {
-    dispatch({ type: 'SET_TAX', payload: amount });
+
+  const setOrderTax = (taxRate: TaxRate | null) => {
+    dispatch({ type: 'SET_ORDER_TAX', payload: taxRate });
   };
-  
+
   const setNote = (note: string) => {
     dispatch({ type: 'SET_NOTE', payload: note });
   };
-  
+
   const setLocation = (id: number) => {
     dispatch({ type: 'SET_LOCATION', payload: id });
   };
-  
+
+  const setCustomer = (customer: Customer | null) => {
+    dispatch({ type: 'SET_CUSTOMER', payload: customer });
+  };
+
+  const loadCart = (cartState: CartState) => {
+    dispatch({ type: 'LOAD_CART', payload: cartState });
+  };
+
+  const newOrder = (name?: string) => {
+    dispatch({
+      type: 'NEW_ORDER',
+      payload: createOrder(name || getNextOrderName(state.orders), state.default_location_id)
+    });
+  };
+
+  const switchOrder = (id: string) => {
+    dispatch({ type: 'SWITCH_ORDER', payload: { id } });
+  };
+
+  const closeOrder = (id: string) => {
+    dispatch({ type: 'CLOSE_ORDER', payload: { id } });
+  };
+
+  const renameOrder = (id: string, name: string) => {
+    dispatch({ type: 'RENAME_ORDER', payload: { id, name } });
+  };
+
+  const loadOrders = (orders: CartOrder[], activeOrderId: string) => {
+    dispatch({ type: 'LOAD_ORDERS', payload: { orders, activeOrderId } });
+  };
+
+  const getTotals = () => {
+    return calculateCartTotals(cart, settings?.currency_precision ?? 2);
+  };
+
   const getSubtotal = () => {
-    return cart.items.reduce((sum, item) => sum + item.total, 0);
+    return getTotals().subtotal;
   };
-  
+
   const getTotal = () => {
-    const subtotal = getSubtotal();
-    return subtotal - cart.discount + cart.tax;
+    return getTotals().total;
   };
-  
+
+  // Re-price an order's lines for its customer's group when the customer changes.
+  // Orders being priced are remembered so each change is only worked out once.
+  const pricingInProgress = useRef(new Set<string>());
+  useEffect(() => {
+    const showPriceChanges = (order: CartOrder, pricing: CustomerPricing | null, changes: CartPriceChange[]) => {
+      const format = (amount: number) => settings ? formatCurrencySync(amount, settings) : amount.toFixed(2);
+      const lines = changes.slice(0, 5).map(change =>
+        `${change.name}: ${format(change.old_price)} → ${format(change.new_price)}`
+      );
+      if (changes.length > lines.length) {
+        lines.push(`and ${changes.length - lines.length} more`);
+      }
+
+      toast.info(
+        pricing ? `${order.name} re-priced for ${pricing.name}` : `${order.name} re-priced at standard prices`,
+        { description: <div>{lines.map(line => <div key={line}>{line}</div>)}</div>, duration: 8000 }
+      );
+    };
+
+    for (const order of state.orders) {
+      const pricedFor = getPricingKey(order.customer);
+      const job = `${order.id}|${pricedFor}`;
+      if ((order.priced_for || '') === pricedFor || pricingInProgress.current.has(job)) continue;
+
+      pricingInProgress.current.add(job);
+      const repriceOrder = async () => {
+        try {
+          const pricing = await getCustomerPricing(order.customer);
+          const changes = await repriceCartItems(order.items, pricing);
+          dispatch({ type: 'SET_PRICING', payload: { id: order.id, pricedFor, pricing, changes } });
+          if (changes.length > 0) {
+            showPriceChanges(order, pricing, changes);
+          }
+        } catch (error) {
+          console.error('Error re-pricing order:', error);
+          toast.error('Failed to update prices for the customer');
+        } finally {
+          pricingInProgress.current.delete(job);
+        }
+      };
+      repriceOrder();
+    }
+  }, [state.orders, settings]);
+
+  // A customer added at the till has a new ID once uploaded
+  useEffect(() => {
+    return subscribeToSync(event => {
+      if (event.type === 'contact_replaced') {
+        dispatch({ type: 'REPLACE_CUSTOMER', payload: { temporaryId: event.temporary_id, customer: event.contact } });
+      }
+    });
+  }, []);
+
   // Load selected location on mount
   useEffect(() => {
     const loadSelectedLocation = async () => {
@@ -190,23 +564,35 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
         console.error('Error loading selected location:', error);
       }
     };
-    
+
     loadSelectedLocation();
   }, []);
 
   return (
     <CartContext.Provider value={{
       cart,
+      orders: state.orders,
+      activeOrderId: cart.id,
+      locationId: state.default_location_id,
       addItem,
       updateQuantity,
+      updateItem,
       removeItem,
       clearCart,
       setDiscount,
-      setTax,
+      setOrderTax,
       setNote,
       setLocation,
+      setCustomer,
+      loadCart,
+      newOrder,
+      switchOrder,
+      closeOrder,
+      renameOrder,
+      loadOrders,
       getSubtotal,
-      getTotal
+      getTotal,
+      getTotals
     }}>
       {children}
     </CartContext.Provider>
@@ -1,8 +1,10 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { getContacts, saveContacts } from '@/lib/storage';
-import { fetchContacts } from '@/services/api';
+import { getContacts } from '@/lib/storage';
+import { createCustomer, CustomerChanges, NewCustomerData, updateCustomer } from '@/services/customerService';
+import { runSync, subscribeToSync } from '@/services/sync';
 import { useNetwork } from '@/context/NetworkContext';
+import { useCart } from '@/context/CartContext';
 import { toast } from 'sonner';
 
 export interface Customer {
@@ -23,6 +25,8 @@ export interface Customer {
   state?: string;
   country?: string;
   zip_code?: string;
+  // Set while edits made at the till are waiting to be sent
+  local_changes_at?: string;
   [key: string]: any;
 }
 
@@ -33,6 +37,8 @@ interface CustomerContextType {
   isLoading: boolean;
   error: Error | null;
   refreshCustomers: () => Promise<void>;
+  addCustomer: (data: NewCustomerData) => Promise<Customer>;
+  editCustomer: (customer: Customer, changes: CustomerChanges) => Promise<Customer>;
 }
 
 const CustomerContext = createContext<CustomerContextType | undefined>(undefined);
@@ -46,7 +52,10 @@ export const useCustomer = () => {
 };
 
 export const CustomerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  // The selected customer belongs to the active order tab
+  const { cart, setCustomer } = useCart();
+  const selectedCustomer = cart.customer;
+  const setSelectedCustomer = setCustomer;
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -57,6 +66,15 @@ export const CustomerProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     loadCustomers();
   }, []);
 
+  // Pick up customers uploaded or downloaded by a sync pass
+  useEffect(() => {
+    return subscribeToSync(async (event) => {
+      if (event.type === 'adapter_completed' && (event.entity === 'customers' || event.entity === 'contacts')) {
+        setCustomers(await getContacts());
+      }
+    });
+  }, []);
+
   // Load customers from IndexedDB
   const loadCustomers = async () => {
     try {
@@ -89,17 +107,15 @@ export const CustomerProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       setIsLoading(true);
       setError(null);
       
-      // Use retry operation for network resilience
-      const response = await retryOperation(async () => {
-        return await fetchContacts(1, 500, 'customer');
+      // Use retry operation for network resilience. The sync engine downloads every page.
+      await retryOperation(async () => {
+        if (!await runSync({ entities: ['contacts'], force: true })) {
+          throw new Error('Failed to download customers');
+        }
       });
       
-      if (response?.data) {
-        // Store contacts in IndexedDB
-        await saveContacts(response.data);
-        setCustomers(response.data);
-        toast.success('Customers refreshed successfully');
-      }
+      setCustomers(await getContacts());
+      toast.success('Customers refreshed successfully');
     } catch (err) {
       console.error('Error refreshing customers:', err);
       setError(err instanceof Error ? err : new Error('Failed to refresh customers'));
@@ -109,6 +125,23 @@ export const CustomerProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   }, [isOnline, retryOperation]);
 
+  // Add a customer at the till - works offline with a temporary ID until it is uploaded
+  const addCustomer = useCallback(async (data: NewCustomerData) => {
+    const customer = await createCustomer(data);
+    setCustomers(await getContacts());
+    return customer;
+  }, []);
+
+  // Edit a customer's details - sent now when online, otherwise queued
+  const editCustomer = useCallback(async (customer: Customer, changes: CustomerChanges) => {
+    const updated = await updateCustomer(customer, changes);
+    setCustomers(await getContacts());
+    if (selectedCustomer?.id === updated.id) {
+      setSelectedCustomer(updated);
+    }
+    return updated;
+  }, [selectedCustomer, setSelectedCustomer]);
+
   return (
     <CustomerContext.Provider value={{ 
       selectedCustomer, 
@@ -116,7 +149,9 @@ export const CustomerProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       customers, 
       isLoading,
       error,
-      refreshCustomers
+      refreshCustomers,
+      addCustomer,
+      editCustomer
     }}>
       {children}
     </CustomerContext.Provider>
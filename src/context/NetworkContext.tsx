@@ -1,7 +1,7 @@
 
 import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
 import { toast } from 'sonner';
-import { startBackgroundSync, stopBackgroundSync } from '@/lib/sync';
+import { startBackgroundSync, stopBackgroundSync } from '@/services/sync';
 
 interface NetworkContextType {
   isOnline: boolean;
@@ -0,0 +1,64 @@
+// src/hooks/useBarcodeScanner.tsx
+import { useEffect, useRef } from 'react';
+
+interface UseBarcodeScannerProps {
+  onScan: (code: string) => void;
+  // Shortest code accepted as a scan
+  minLength?: number;
+  // Longest gap between keystrokes, in ms, that still counts as scanner input
+  maxKeyInterval?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Detect input from a keyboard-wedge barcode scanner.
+ * Scanners "type" the code as a fast burst of keystrokes ending in Enter;
+ * a person typing is much slower, so only bursts are reported as scans.
+ * The Enter that ends a scan is swallowed so it doesn't also submit a form.
+ */
+function useBarcodeScanner({
+  onScan,
+  minLength = 4,
+  maxKeyInterval = 50,
+  enabled = true
+}: UseBarcodeScannerProps): void {
+  const bufferRef = useRef('');
+  const lastKeyTimeRef = useRef(0);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const now = Date.now();
+      const isBurst = now - lastKeyTimeRef.current <= maxKeyInterval;
+      lastKeyTimeRef.current = now;
+
+      if (e.key === 'Enter') {
+        const code = bufferRef.current;
+        bufferRef.current = '';
+        if (isBurst && code.length >= minLength) {
+          e.preventDefault();
+          e.stopPropagation();
+          onScanRef.current(code);
+        }
+        return;
+      }
+
+      // Ignore modifiers and navigation keys; only printable characters make up a code
+      if (e.key.length !== 1 || e.ctrlKey || e.altKey || e.metaKey) {
+        return;
+      }
+
+      // A slow keystroke starts a new candidate code
+      bufferRef.current = isBurst ? bufferRef.current + e.key : e.key;
+    };
+
+    // Capture phase so the scan is seen before inputs and forms handle the keys
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled, minLength, maxKeyInterval]);
+}
+
+export default useBarcodeScanner;
@@ -39,6 +39,9 @@ export interface BusinessSettings {
   currency_symbol_placement?: 'before' | 'after';
   currency_precision?: number;
   quantity_precision?: number;
+  // Tax registration, e.g. the VAT number
+  tax_label_1?: string | null;
+  tax_number_1?: string | null;
   pos_settings?: {
     amount_rounding_method: string;
     [key: string]: any;
@@ -105,7 +108,8 @@ export const getBusinessSettings = async (forceRefresh = false): Promise<Busines
           pos_settings: apiData.pos_settings || {
             amount_rounding_method: null
           },
-          locations: Array.isArray(apiData.locations) ? apiData.locations : []
+          locations: Array.isArray(apiData.locations) ? apiData.locations : [],
+          custom_labels: apiData.custom_labels || null
         };
 
         console.log('Transformed business settings:', settings);
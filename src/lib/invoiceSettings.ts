@@ -0,0 +1,84 @@
+import { getLocalItemAsJson, setLocalItem } from './storage';
+
+/**
+ * Device-level invoice numbering. Each till numbers its sales per location, and the
+ * device code in the number keeps tills from issuing the same invoice number.
+ */
+export interface InvoiceSettings {
+  prefix: string;
+  // Short code for this till, generated on first use
+  device_code: string;
+  // Tokens: {prefix}, {device}, {location}, {year}, {number}
+  format: string;
+  // Number padded with zeros to this many digits
+  number_length: number;
+}
+
+// Constants for storage
+const INVOICE_SETTINGS_KEY = 'invoice_settings';
+
+export const DEFAULT_INVOICE_FORMAT = '{prefix}-{device}-{location}-{number}';
+
+export const DEFAULT_INVOICE_SETTINGS: Omit<InvoiceSettings, 'device_code'> = {
+  prefix: 'INV',
+  format: DEFAULT_INVOICE_FORMAT,
+  number_length: 6,
+};
+
+const DEVICE_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const generateDeviceCode = (): string => {
+  const values = crypto.getRandomValues(new Uint8Array(4));
+  return Array.from(values, value => DEVICE_CODE_CHARS[value % DEVICE_CODE_CHARS.length]).join('');
+};
+
+/**
+ * Get invoice settings merged over the defaults
+ */
+export const getInvoiceSettings = (): InvoiceSettings => {
+  const stored = getLocalItemAsJson<Partial<InvoiceSettings>>(INVOICE_SETTINGS_KEY);
+  if (stored?.device_code) {
+    const settings = { ...DEFAULT_INVOICE_SETTINGS, ...stored } as InvoiceSettings;
+    // Formats saved before every token was required could repeat numbers
+    return isValidInvoiceFormat(settings.format) ? settings : { ...settings, format: DEFAULT_INVOICE_FORMAT };
+  }
+  // First use on this device - keep the generated code from now on
+  return saveInvoiceSettings({ ...(stored || {}), device_code: generateDeviceCode() });
+};
+
+/**
+ * Update one or more invoice settings
+ */
+export const saveInvoiceSettings = (settings: Partial<InvoiceSettings>): InvoiceSettings => {
+  const stored = getLocalItemAsJson<Partial<InvoiceSettings>>(INVOICE_SETTINGS_KEY);
+  const updated = { ...DEFAULT_INVOICE_SETTINGS, ...(stored || {}), ...settings } as InvoiceSettings;
+  setLocalItem(INVOICE_SETTINGS_KEY, JSON.stringify(updated));
+  return updated;
+};
+
+// Sequences are kept per device and location, so numbers only stay unique with all three
+export const REQUIRED_INVOICE_TOKENS = ['{device}', '{location}', '{number}'];
+
+/**
+ * A format is usable only if it includes the device, location and sequence number
+ */
+export const isValidInvoiceFormat = (format: string): boolean => {
+  return REQUIRED_INVOICE_TOKENS.every(token => format.includes(token));
+};
+
+/**
+ * Fill in an invoice number format
+ */
+export const formatInvoiceNumber = (
+  number: number,
+  locationId: number,
+  settings: InvoiceSettings,
+  date = new Date()
+): string => {
+  return settings.format
+    .replace(/\{prefix\}/g, settings.prefix)
+    .replace(/\{device\}/g, settings.device_code)
+    .replace(/\{location\}/g, String(locationId))
+    .replace(/\{year\}/g, String(date.getFullYear()))
+    .replace(/\{number\}/g, String(number).padStart(settings.number_length, '0'));
+};
@@ -0,0 +1,40 @@
+import { getLocalItemAsJson, setLocalItem } from './storage';
+
+/**
+ * Device-level POS preferences. These complement the ERP's pos_settings
+ * (which come from BusinessSettings) with options that only affect this till.
+ */
+export type StockCheckMode = 'off' | 'warn' | 'block';
+
+export interface PosPreferences {
+  allow_partial_payment: boolean;
+  push_held_carts_to_server: boolean;
+  // What to do when a line asks for more than the location has in stock
+  stock_check: StockCheckMode;
+}
+
+// Constants for storage
+const POS_PREFERENCES_KEY = 'pos_preferences';
+
+export const DEFAULT_POS_PREFERENCES: PosPreferences = {
+  allow_partial_payment: false,
+  push_held_carts_to_server: false,
+  stock_check: 'warn',
+};
+
+/**
+ * Get POS preferences merged over the defaults
+ */
+export const getPosPreferences = (): PosPreferences => {
+  const stored = getLocalItemAsJson<Partial<PosPreferences>>(POS_PREFERENCES_KEY);
+  return { ...DEFAULT_POS_PREFERENCES, ...(stored || {}) };
+};
+
+/**
+ * Update one or more POS preferences
+ */
+export const savePosPreferences = (preferences: Partial<PosPreferences>): PosPreferences => {
+  const updated = { ...getPosPreferences(), ...preferences };
+  setLocalItem(POS_PREFERENCES_KEY, JSON.stringify(updated));
+  return updated;
+};
@@ -0,0 +1,62 @@
+import { getLocalItemAsJson, setLocalItem } from './storage';
+
+/**
+ * Device-level receipt options - each till can have its own printer and paper
+ */
+export type ReceiptPaperSize = '58mm' | '80mm' | 'A4';
+
+// What happens once a sale is completed
+export type ReceiptAfterSale = 'none' | 'preview' | 'print';
+
+// How receipts reach the printer: the browser print dialog, or raw ESC/POS bytes
+export type ReceiptPrinterType = 'browser' | 'usb' | 'serial' | 'network' | 'file';
+
+export interface ReceiptSettings {
+  paper_size: ReceiptPaperSize;
+  header_text: string;
+  footer_text: string;
+  show_tax_breakdown: boolean;
+  after_sale: ReceiptAfterSale;
+  printer_type: ReceiptPrinterType;
+  // Local bridge that forwards raw bytes to a network printer
+  bridge_url: string;
+  serial_baud_rate: number;
+  logo_url: string;
+  open_cash_drawer: boolean;
+  // Print Arabic text as images, for thermal printers without Arabic shaping
+  arabic_as_image: boolean;
+}
+
+// Constants for storage
+const RECEIPT_SETTINGS_KEY = 'receipt_settings';
+
+export const DEFAULT_RECEIPT_SETTINGS: ReceiptSettings = {
+  paper_size: '80mm',
+  header_text: '',
+  footer_text: 'Thank you for your purchase!',
+  show_tax_breakdown: true,
+  after_sale: 'preview',
+  printer_type: 'browser',
+  bridge_url: 'http://localhost:9100/print',
+  serial_baud_rate: 9600,
+  logo_url: '',
+  open_cash_drawer: false,
+  arabic_as_image: false,
+};
+
+/**
+ * Get receipt settings merged over the defaults
+ */
+export const getReceiptSettings = (): ReceiptSettings => {
+  const stored = getLocalItemAsJson<Partial<ReceiptSettings>>(RECEIPT_SETTINGS_KEY);
+  return { ...DEFAULT_RECEIPT_SETTINGS, ...(stored || {}) };
+};
+
+/**
+ * Update one or more receipt settings
+ */
+export const saveReceiptSettings = (settings: Partial<ReceiptSettings>): ReceiptSettings => {
+  const updated = { ...getReceiptSettings(), ...settings };
+  setLocalItem(RECEIPT_SETTINGS_KEY, JSON.stringify(updated));
+  return updated;
+};
@@ -1,4 +1,38 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { CartOrder, CartState } from '@/context/CartContext';
+import type { Customer } from '@/context/CustomerContext';
+import type { SaleData } from '@/services/api';
+import type { CustomerGroup, SellingPriceGroup } from '@/services/customerGroupService';
+import type { HeldCart } from '@/services/heldCartService';
+import type { CustomerPayment } from '@/services/receivableService';
+import type { SaleReturn } from '@/services/returnService';
+import type { TaxRate } from '@/services/taxRateService';
+import type { StoredSale } from '@/utils/saleUtils';
+
+// Open orders saved for crash/reload recovery
+export interface CartSession {
+  key: string;
+  user_id: number;
+  location_id: number | null;
+  orders?: CartOrder[];
+  active_order_id?: string;
+  // Single-cart sessions saved before order tabs existed
+  cart?: CartState;
+  customer?: Customer | null;
+  updated_at?: string;
+}
+
+// The stock figures of a product as returned by the API
+interface ProductStock {
+  id: number;
+  product_variations?: {
+    variations?: { id: number; variation_location_details?: unknown[] }[];
+  }[];
+}
+
+// A customer payment before IndexedDB has given it a local ID
+type NewCustomerPayment = Omit<CustomerPayment, 'local_id' | 'is_synced' | 'paid_on'> &
+  Partial<Pick<CustomerPayment, 'is_synced' | 'paid_on'>>;
 
 interface SadiidPOSDB extends DBSchema {
   token: {
@@ -11,12 +45,12 @@ interface SadiidPOSDB extends DBSchema {
     };
   };
   products: {
-    key: string;
+    key: number;
     value: any;
-    indexes: { 'by-name': string; 'by-category': number };
+    indexes: { 'by-name': string; 'by-category': number; 'by-code': string };
   };
   contacts: {
-    key: string;
+    key: number;
     value: any;
     indexes: { 'by-name': string };
   };
@@ -42,10 +76,85 @@ interface SadiidPOSDB extends DBSchema {
     };
     indexes: { 'by-timestamp': string }; // Fixed: Added proper index definition
   };
+  held_carts: {
+    key: number; // For autoIncrement
+    value: HeldCart;
+    indexes: { 'by-date': string };
+  };
+  cart_sessions: {
+    key: string; // `${user_id}_${location_id}`, or `${user_id}_none` before a location is chosen
+    value: CartSession;
+  };
+  tax_rates: {
+    key: number;
+    value: TaxRate;
+  };
+  unknown_scans: {
+    key: number; // For autoIncrement
+    value: {
+      id?: number;
+      code: string;
+      scanned_at: string;
+    };
+    indexes: { 'by-date': string };
+  };
+  sale_returns: {
+    key: number; // For autoIncrement
+    value: SaleReturn;
+    indexes: { 'by-date': string; 'by-sync': number; 'by-sale': number };
+  };
+  invoice_sequences: {
+    key: string; // `${device_code}:${location_id}`
+    value: {
+      key: string;
+      location_id: number;
+      last_number: number;
+      // Numbers passed over because they formatted to an invoice number already issued
+      skipped?: number[];
+      updated_at: string;
+    };
+  };
+  invoice_audit: {
+    key: string; // invoice_no
+    value: {
+      invoice_no: string;
+      sequence_key: string;
+      number: number;
+      location_id: number;
+      sale_local_id: number;
+      issued_at: string;
+    };
+    indexes: { 'by-sequence': string };
+  };
+  receivables: {
+    key: number; // Server transaction ID
+    value: {
+      id: number;
+      contact_id: number;
+      invoice_no: string | null;
+      transaction_date: string;
+      final_total: number;
+      paid: number;
+    };
+    indexes: { 'by-contact': number };
+  };
+  customer_payments: {
+    key: number; // For autoIncrement
+    value: CustomerPayment;
+    indexes: { 'by-contact': number; 'by-sync': number };
+  };
+  customer_groups: {
+    key: number;
+    value: CustomerGroup;
+  };
+  selling_price_groups: {
+    key: number;
+    value: SellingPriceGroup;
+  };
 }
 
 const DB_NAME = 'sadiid-pos';
-const DB_VERSION = 1;
+const DB_VERSION = 9;
 
 let db: IDBPDatabase<SadiidPOSDB>;
 
@@ -55,7 +164,7 @@ export const initDB = async () => {
     if (db) return db;
     
     db = await openDB<SadiidPOSDB>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
+      async upgrade(db, oldVersion, newVersion, transaction) {
         // Create stores if they don't exist
         if (!db.objectStoreNames.contains('token')) {
           db.createObjectStore('token');
@@ -73,6 +182,16 @@ export const initDB = async () => {
           const productStore = db.createObjectStore('products', { keyPath: 'id' });
           productStore.createIndex('by-name', 'name');
           productStore.createIndex('by-category', 'category.id');
+          productStore.createIndex('by-code', 'search_codes', { multiEntry: true });
+        } else if (oldVersion < 5) {
+          // Exact SKU/barcode lookup for scanning (v5) - index the products already stored
+          const productStore = transaction.objectStore('products');
+          productStore.createIndex('by-code', 'search_codes', { multiEntry: true });
+          let cursor = await productStore.openCursor();
+          while (cursor) {
+            await cursor.update(withSearchCodes(cursor.value));
+            cursor = await cursor.continue();
+          }
         }
         
         if (!db.objectStoreNames.contains('contacts')) {
@@ -94,6 +213,80 @@ export const initDB = async () => {
           const settingsStore = db.createObjectStore('settings', { keyPath: 'key' });
           settingsStore.createIndex('by-timestamp', 'timestamp', { unique: false }); // Fixed: Correct index name
         }
+        
+        // Parked carts waiting to be resumed (v2)
+        if (!db.objectStoreNames.contains('held_carts')) {
+          const heldStore = db.createObjectStore('held_carts', {
+            keyPath: 'id',
+            autoIncrement: true
+          });
+          heldStore.createIndex('by-date', 'held_at');
+        }
+        
+        // In-progress cart per user and location, for crash recovery (v3)
+        if (!db.objectStoreNames.contains('cart_sessions')) {
+          db.createObjectStore('cart_sessions', { keyPath: 'key' });
+        }
+        
+        // Tax rates synced from the ERP (v4)
+        if (!db.objectStoreNames.contains('tax_rates')) {
+          db.createObjectStore('tax_rates', { keyPath: 'id' });
+        }
+        
+        // Scanned codes that matched no product, kept for review (v5)
+        if (!db.objectStoreNames.contains('unknown_scans')) {
+          const scanStore = db.createObjectStore('unknown_scans', {
+            keyPath: 'id',
+            autoIncrement: true
+          });
+          scanStore.createIndex('by-date', 'scanned_at');
+        }
+        
+        // Returns against past sales, waiting to sync or already sent (v6)
+        if (!db.objectStoreNames.contains('sale_returns')) {
+          const returnStore = db.createObjectStore('sale_returns', {
+            keyPath: 'local_id',
+            autoIncrement: true
+          });
+          returnStore.createIndex('by-date', 'transaction_date');
+          returnStore.createIndex('by-sync', 'is_synced');
+          returnStore.createIndex('by-sale', 'sale_local_id');
+        }
+        
+        // Invoice number sequence per device and location, with every number issued (v7)
+        if (!db.objectStoreNames.contains('invoice_sequences')) {
+          db.createObjectStore('invoice_sequences', { keyPath: 'key' });
+        }
+        
+        if (!db.objectStoreNames.contains('invoice_audit')) {
+          const auditStore = db.createObjectStore('invoice_audit', { keyPath: 'invoice_no' });
+          auditStore.createIndex('by-sequence', 'sequence_key');
+        }
+        
+        // Unpaid and part-paid invoices on the server, for balances offline (v8)
+        if (!db.objectStoreNames.contains('receivables')) {
+          const receivableStore = db.createObjectStore('receivables', { keyPath: 'id' });
+          receivableStore.createIndex('by-contact', 'contact_id');
+        }
+        
+        // Payments taken against customer balances, waiting to sync or already sent (v8)
+        if (!db.objectStoreNames.contains('customer_payments')) {
+          const paymentStore = db.createObjectStore('customer_payments', {
+            keyPath: 'local_id',
+            autoIncrement: true
+          });
+          paymentStore.createIndex('by-contact', 'contact_id');
+          paymentStore.createIndex('by-sync', 'is_synced');
+        }
+        
+        // Customer groups and selling price groups synced from the ERP, for group pricing (v9)
+        if (!db.objectStoreNames.contains('customer_groups')) {
+          db.createObjectStore('customer_groups', { keyPath: 'id' });
+        }
+        
+        if (!db.objectStoreNames.contains('selling_price_groups')) {
+          db.createObjectStore('selling_price_groups', { keyPath: 'id' });
+        }
       },
     });
     
@@ -160,22 +353,142 @@ export const getUser = async () => {
   }
 };
 
+// Normalise a scanned or typed code for exact matching
+export const normalizeCode = (code: string): string => code.trim().toLowerCase();
+
+interface SearchableProduct {
+  sku?: string;
+  product_variations?: { variations?: { sub_sku?: string }[] }[];
+}
+
+// Every code a product can be scanned by: its SKU and each variation's sub-SKU
+const withSearchCodes = <T extends SearchableProduct>(product: T): T & { search_codes: string[] } => {
+  const codes = new Set<string>();
+  if (product.sku) codes.add(normalizeCode(String(product.sku)));
+  
+  for (const productVariation of product.product_variations || []) {
+    for (const variation of productVariation.variations || []) {
+      if (variation.sub_sku) codes.add(normalizeCode(String(variation.sub_sku)));
+    }
+  }
+  
+  return { ...product, search_codes: Array.from(codes) };
+};
+
+// Products deactivated on the server, or not for selling, shouldn't be sold offline
+const isSellableProduct = (product: { is_inactive?: number | string; not_for_selling?: number | string }): boolean => {
+  return !Number(product.is_inactive) && !Number(product.not_for_selling);
+};
+
 // Product management
-export const saveProducts = async (products: any[]) => {
+// syncGeneration marks the products seen by a full download - see removeUnseenRecords
+export const saveProducts = async (products: any[], syncGeneration?: number) => {
   const db = await getDB();
   const tx = db.transaction('products', 'readwrite');
   for (const product of products) {
-    await tx.store.put(product);
+    if (!isSellableProduct(product)) {
+      await tx.store.delete(product.id);
+      continue;
+    }
+    const record = withSearchCodes(product);
+    if (syncGeneration) record.sync_generation = syncGeneration;
+    // Server stock doesn't include sales still waiting to sync - see reapplyPendingStock
+    record.stock_synced_at = Date.now();
+    await tx.store.put(record);
   }
   await tx.done;
   return true;
 };
 
+export const getProduct = async (id: number) => {
+  const db = await getDB();
+  return db.get('products', id);
+};
+
 export const getProducts = async () => {
   const db = await getDB();
   return db.getAll('products');
 };
 
+export interface StockAdjustment {
+  product_id: number;
+  variation_id?: number;
+  location_id: number;
+  // Negative for stock leaving (a sale), positive for stock coming back (a return)
+  quantity: number;
+}
+
+/**
+ * Apply stock movements to the locally stored products, in one transaction.
+ * Only variations that already have a stock record at the location are changed.
+ * @param stockSyncedSince Only change products whose stock came from the server since then
+ */
+export const adjustProductStock = async (adjustments: StockAdjustment[], stockSyncedSince?: number): Promise<void> => {
+  const db = await getDB();
+  const tx = db.transaction('products', 'readwrite');
+  
+  for (const adjustment of adjustments) {
+    const product = await tx.store.get(adjustment.product_id);
+    if (!product) continue;
+    if (stockSyncedSince && !(product.stock_synced_at >= stockSyncedSince)) continue;
+    
+    // Without a variation ID the line was for the product's default (first) variation
+    const variations = (product.product_variations || []).flatMap(
+      (productVariation) => productVariation.variations || []
+    );
+    const variation = adjustment.variation_id
+      ? variations.find((item) => item.id === adjustment.variation_id)
+      : variations[0];
+    
+    for (const details of variation?.variation_location_details || []) {
+      if (details.location_id !== adjustment.location_id) continue;
+      const qty = (parseFloat(details.qty_available) || 0) + adjustment.quantity;
+      details.qty_available = String(qty);
+    }
+    
+    await tx.store.put(product);
+  }
+  
+  await tx.done;
+};
+
+/**
+ * Replace only the stock figures of stored products with the server's. The server doesn't
+ * change a product's updated_at when its stock moves, so a changes-only download misses them.
+ */
+export const saveProductStock = async (products: ProductStock[]) => {
+  const db = await getDB();
+  const tx = db.transaction('products', 'readwrite');
+  for (const product of products) {
+    const stored = await tx.store.get(product.id);
+    if (!stored) continue;
+
+    const serverVariations = new Map(
+      (product.product_variations || [])
+        .flatMap(productVariation => productVariation.variations || [])
+        .map(variation => [variation.id, variation])
+    );
+    for (const productVariation of stored.product_variations || []) {
+      for (const variation of productVariation.variations || []) {
+        const serverVariation = serverVariations.get(variation.id);
+        if (serverVariation) {
+          variation.variation_location_details = serverVariation.variation_location_details || [];
+        }
+      }
+    }
+    stored.stock_synced_at = Date.now();
+    await tx.store.put(stored);
+  }
+  await tx.done;
+  return true;
+};
+
+// Exact lookup by SKU or variation sub-SKU
+export const getProductsByCode = async (code: string) => {
+  const db = await getDB();
+  return db.getAllFromIndex('products', 'by-code', normalizeCode(code));
+};
+
 // Get product categories
 export const getCategories = async (): Promise<any[]> => {
   try {
@@ -210,12 +523,80 @@ export const getProductsByCategory = async (categoryId: number): Promise<any[]>
   return db.getAllFromIndex('products', 'by-category', categoryId);
 };
 
+// Tax rates - replaced as a whole so rates deleted in the ERP disappear
+export const saveTaxRates = async (taxRates: TaxRate[]) => {
+  const db = await getDB();
+  const tx = db.transaction('tax_rates', 'readwrite');
+  await tx.store.clear();
+  for (const taxRate of taxRates) {
+    await tx.store.put(taxRate);
+  }
+  await tx.done;
+  return true;
+};
+
+export const getTaxRatesFromStorage = async () => {
+  const db = await getDB();
+  return db.getAll('tax_rates');
+};
+
+// Customer groups and selling price groups - replaced as a whole like tax rates
+export const saveCustomerGroups = async (customerGroups: CustomerGroup[], sellingPriceGroups: SellingPriceGroup[]) => {
+  const db = await getDB();
+  const tx = db.transaction(['customer_groups', 'selling_price_groups'], 'readwrite');
+  const groupStore = tx.objectStore('customer_groups');
+  const priceGroupStore = tx.objectStore('selling_price_groups');
+  await groupStore.clear();
+  await priceGroupStore.clear();
+  for (const group of customerGroups) {
+    await groupStore.put(group);
+  }
+  for (const priceGroup of sellingPriceGroups) {
+    await priceGroupStore.put(priceGroup);
+  }
+  await tx.done;
+  return true;
+};
+
+export const getCustomerGroup = async (id: number) => {
+  const db = await getDB();
+  return db.get('customer_groups', id);
+};
+
+export const getSellingPriceGroup = async (id: number) => {
+  const db = await getDB();
+  return db.get('selling_price_groups', id);
+};
+
+// Unknown scan log
+export const logUnknownScan = async (code: string): Promise<void> => {
+  const db = await getDB();
+  await db.add('unknown_scans', { code, scanned_at: new Date().toISOString() });
+};
+
+export const getUnknownScans = async () => {
+  const db = await getDB();
+  const scans = await db.getAllFromIndex('unknown_scans', 'by-date');
+  return scans.reverse();
+};
+
+export const clearUnknownScans = async (): Promise<void> => {
+  const db = await getDB();
+  await db.clear('unknown_scans');
+};
+
 // Contact management
-export const saveContacts = async (contacts: any[]) => {
+export const saveContacts = async (contacts: any[], syncGeneration?: number) => {
   const db = await getDB();
   const tx = db.transaction('contacts', 'readwrite');
   for (const contact of contacts) {
-    await tx.store.put(contact);
+    // Keep edits made at the till until they have been sent
+    const existing = await tx.store.get(contact.id);
+    if (existing?.local_changes_at && !contact.local_changes_at) {
+      if (syncGeneration) await tx.store.put({ ...existing, sync_generation: syncGeneration });
+      continue;
+    }
+    await tx.store.put(syncGeneration ? { ...contact, sync_generation: syncGeneration } : contact);
   }
   await tx.done;
   return true;
@@ -226,27 +607,220 @@ export const getContacts = async () => {
   return db.getAll('contacts');
 };
 
+/**
+ * Delete the records a full download didn't see, as they no longer exist on the server.
+ * Records without a server id yet are kept.
+ * @returns The number of records deleted
+ */
+const removeUnseenRecords = async (storeName: 'products' | 'contacts', syncGeneration: number): Promise<number> => {
+  const db = await getDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  let removed = 0;
+  let cursor = await tx.store.openCursor();
+  while (cursor) {
+    if (cursor.value.id > 0 && cursor.value.sync_generation !== syncGeneration) {
+      await cursor.delete();
+      removed++;
+    }
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+  return removed;
+};
+
+export const removeUnseenProducts = (syncGeneration: number) => removeUnseenRecords('products', syncGeneration);
+
+export const removeUnseenContacts = (syncGeneration: number) => removeUnseenRecords('contacts', syncGeneration);
+
+// Store one contact as it is, including its local changes
+export const saveContact = async (contact: { id: number }): Promise<void> => {
+  const db = await getDB();
+  await db.put('contacts', contact);
+};
+
+export const getContact = async (id: number) => {
+  const db = await getDB();
+  return db.get('contacts', id);
+};
+
+// Customers added at the till that haven't been uploaded - they have negative IDs
+export const getTemporaryContacts = async () => {
+  const db = await getDB();
+  return db.getAll('contacts', IDBKeyRange.upperBound(0, true));
+};
+
+interface ContactReference {
+  contact_id?: number | null;
+  customer?: { id?: number } | null;
+}
+
+// Point a stored sale, return or held cart at the uploaded customer
+const withContactId = <T extends ContactReference>(record: T, temporaryId: number, contact: Customer): T | null => {
+  const usesContactId = record.contact_id === temporaryId;
+  const usesCustomer = record.customer?.id === temporaryId;
+  if (!usesContactId && !usesCustomer) {
+    return null;
+  }
+  return {
+    ...record,
+    ...(usesContactId ? { contact_id: contact.id } : {}),
+    ...(usesCustomer ? { customer: contact } : {}),
+  };
+};
+
+/**
+ * Replace a customer added at the till with its uploaded copy, and rewrite every unsynced
+ * sale, return and payment, every held cart and every saved cart session that refers to
+ * its temporary ID
+ */
+export const replaceTemporaryContact = async (temporaryId: number, contact: Customer): Promise<void> => {
+  const db = await getDB();
+  const tx = db.transaction(
+    ['contacts', 'sales', 'sale_returns', 'held_carts', 'customer_payments', 'cart_sessions'],
+    'readwrite'
+  );
+
+  const contacts = tx.objectStore('contacts');
+  await contacts.delete(temporaryId);
+  await contacts.put(contact);
+
+  let saleCursor = await tx.objectStore('sales').index('by-sync').openCursor(0);
+  while (saleCursor) {
+    const updated = withContactId(saleCursor.value, temporaryId, contact);
+    if (updated) await saleCursor.update(updated);
+    saleCursor = await saleCursor.continue();
+  }
+
+  let returnCursor = await tx.objectStore('sale_returns').index('by-sync').openCursor(0);
+  while (returnCursor) {
+    const updated = withContactId(returnCursor.value, temporaryId, contact);
+    if (updated) await returnCursor.update(updated);
+    returnCursor = await returnCursor.continue();
+  }
+
+  let paymentCursor = await tx.objectStore('customer_payments').index('by-sync').openCursor(0);
+  while (paymentCursor) {
+    const updated = withContactId(paymentCursor.value, temporaryId, contact);
+    if (updated) await paymentCursor.update(updated);
+    paymentCursor = await paymentCursor.continue();
+  }
+
+  let heldCursor = await tx.objectStore('held_carts').openCursor();
+  while (heldCursor) {
+    const updated = withContactId(heldCursor.value, temporaryId, contact);
+    if (updated) await heldCursor.update(updated);
+    heldCursor = await heldCursor.continue();
+  }
+
+  // Each open order in a session has its own customer
+  let sessionCursor = await tx.objectStore('cart_sessions').openCursor();
+  while (sessionCursor) {
+    const session = sessionCursor.value;
+    const usesOrders = (session.orders || []).some(order => order.customer?.id === temporaryId);
+    const updated = withContactId(session, temporaryId, contact) || (usesOrders ? { ...session } : null);
+    if (updated && usesOrders) {
+      updated.orders = session.orders.map(order => withContactId(order, temporaryId, contact) || order);
+    }
+    if (updated) await sessionCursor.update(updated);
+    sessionCursor = await sessionCursor.continue();
+  }
+
+  await tx.done;
+};
+
 // Sales management
 export const saveSale = async (sale: any) => {
   const db = await getDB();
-  // Mark as not synced if offline
-  sale.is_synced = navigator.onLine ? 1 : 0;
-  sale.transaction_date = new Date().toISOString();
+  // Mark as not synced if offline, unless the caller already knows the sync state
+  sale.is_synced = sale.is_synced ?? (navigator.onLine ? 1 : 0);
+  sale.transaction_date = sale.transaction_date || new Date().toISOString();
   const id = await db.add('sales', sale);
   return id;
 };
 
+// The next number in the sequence, the sale and the audit entry are written in one
+// transaction, so a number is never skipped or issued twice - even if the app closes mid-sale
+export const saveSaleWithInvoiceNumber = async (
+  sale: SaleData & { is_synced?: number },
+  sequenceKey: string,
+  locationId: number,
+  formatNumber: (number: number) => string
+): Promise<{ local_id: number; invoice_no: string }> => {
+  const db = await getDB();
+  const tx = db.transaction(['invoice_sequences', 'sales', 'invoice_audit'], 'readwrite');
+  const sequences = tx.objectStore('invoice_sequences');
+
+  const audit = tx.objectStore('invoice_audit');
+
+  const sequence = await sequences.get(sequenceKey);
+  const skipped = sequence?.skipped || [];
+  let number = (sequence?.last_number || 0) + 1;
+  let invoiceNo = formatNumber(number);
+  // A reused device code can format to numbers already issued - move past them
+  // rather than failing the sale
+  while (await audit.get(invoiceNo)) {
+    skipped.push(number);
+    number++;
+    invoiceNo = formatNumber(number);
+  }
+  const issuedAt = new Date().toISOString();
+
+  sale.invoice_no = invoiceNo;
+  sale.is_synced = sale.is_synced ?? (navigator.onLine ? 1 : 0);
+  sale.transaction_date = sale.transaction_date || issuedAt;
+  const localId = await tx.objectStore('sales').add(sale);
+
+  await sequences.put({
+    key: sequenceKey,
+    location_id: locationId,
+    last_number: number,
+    ...(skipped.length > 0 && { skipped }),
+    updated_at: issuedAt,
+  });
+  await audit.add({
+    invoice_no: invoiceNo,
+    sequence_key: sequenceKey,
+    number,
+    location_id: locationId,
+    sale_local_id: localId,
+    issued_at: issuedAt,
+  });
+  await tx.done;
+
+  return { local_id: localId, invoice_no: invoiceNo };
+};
+
+export const getInvoiceSequence = async (sequenceKey: string) => {
+  const db = await getDB();
+  return db.get('invoice_sequences', sequenceKey);
+};
+
+export const getInvoiceAudit = async (sequenceKey: string) => {
+  const db = await getDB();
+  return db.getAllFromIndex('invoice_audit', 'by-sequence', sequenceKey);
+};
+
 export const getUnSyncedSales = async () => {
   const db = await getDB();
   return db.getAllFromIndex('sales', 'by-sync', 0);
 };
 
-export const markSaleAsSynced = async (id: number): Promise<boolean> => {
+export const getSale = async (id: number) => {
+  const db = await getDB();
+  return db.get('sales', id);
+};
+
+// transactionId is the ERP's ID for the sale, needed later to return against it
+export const markSaleAsSynced = async (id: number, transactionId?: number | null): Promise<boolean> => {
   try {
     const db = await getDB();
     const sale = await db.get('sales', id);
     if (sale) {
       sale.is_synced = 1;
+      sale.synced_at = Date.now();
+      if (transactionId) {
+        sale.transaction_id = transactionId;
+      }
       await db.put('sales', sale);
     }
     return true;
@@ -256,9 +830,23 @@ export const markSaleAsSynced = async (id: number): Promise<boolean> => {
   }
 };
 
-export const getSales = async (page = 1, limit = 20) => {
+// Sales made for a customer, including quotations and drafts
+export const getSalesForContact = async (contactId: number) => {
   const db = await getDB();
-  const allSales = await db.getAll('sales');
+  const sales = await db.getAll('sales');
+  return sales.filter(sale => (sale.contact_id || sale.customer_id) === contactId);
+};
+
+export const updateSale = async (sale: StoredSale): Promise<void> => {
+  const db = await getDB();
+  await db.put('sales', sale);
+};
+
+// filter narrows the list before paging, e.g. to final sales or quotations only
+export const getSales = async (page = 1, limit = 20, filter?: (sale: StoredSale) => boolean) => {
+  const db = await getDB();
+  const storedSales = await db.getAll('sales');
+  const allSales = filter ? storedSales.filter(filter) : storedSales;
   
   // Sort by date, newest first
   allSales.sort((a, b) => 
@@ -278,6 +866,152 @@ export const getSales = async (page = 1, limit = 20) => {
   };
 };
 
+// Sale return management
+export const saveSaleReturn = async (saleReturn: SaleReturn): Promise<number> => {
+  const db = await getDB();
+  saleReturn.is_synced = saleReturn.is_synced ?? 0;
+  saleReturn.transaction_date = saleReturn.transaction_date || new Date().toISOString();
+  return db.add('sale_returns', saleReturn);
+};
+
+export const getSaleReturn = async (id: number) => {
+  const db = await getDB();
+  return db.get('sale_returns', id);
+};
+
+export const markSaleReturnAsSynced = async (id: number, transactionId?: number | null): Promise<void> => {
+  const db = await getDB();
+  const saleReturn = await db.get('sale_returns', id);
+  if (saleReturn) {
+    saleReturn.is_synced = 1;
+    saleReturn.transaction_id = transactionId ?? saleReturn.transaction_id ?? null;
+    await db.put('sale_returns', saleReturn);
+  }
+};
+
+export const getUnSyncedSaleReturns = async () => {
+  const db = await getDB();
+  return db.getAllFromIndex('sale_returns', 'by-sync', 0);
+};
+
+export const getSaleReturnsForSale = async (saleLocalId: number) => {
+  const db = await getDB();
+  return db.getAllFromIndex('sale_returns', 'by-sale', saleLocalId);
+};
+
+export const getSaleReturns = async (page = 1, limit = 20) => {
+  const db = await getDB();
+  const allReturns = await db.getAllFromIndex('sale_returns', 'by-date');
+  // Newest first
+  allReturns.reverse();
+  
+  const start = (page - 1) * limit;
+  
+  return {
+    data: allReturns.slice(start, start + limit),
+    total: allReturns.length,
+    page,
+    limit,
+    totalPages: Math.ceil(allReturns.length / limit)
+  };
+};
+
+// Receivables management
+// Replace the cached open invoices with a fresh download from the server
+export const replaceReceivables = async (invoices: SadiidPOSDB['receivables']['value'][]): Promise<void> => {
+  const db = await getDB();
+  const tx = db.transaction('receivables', 'readwrite');
+  await tx.store.clear();
+  for (const invoice of invoices) {
+    await tx.store.put(invoice);
+  }
+  await tx.done;
+};
+
+export const getReceivablesForContact = async (contactId: number) => {
+  const db = await getDB();
+  return db.getAllFromIndex('receivables', 'by-contact', contactId);
+};
+
+// Customer payment management
+export const saveCustomerPayment = async (payment: NewCustomerPayment): Promise<number> => {
+  const db = await getDB();
+  payment.is_synced = payment.is_synced ?? 0;
+  payment.paid_on = payment.paid_on || new Date().toISOString();
+  // local_id is given by the store's autoIncrement
+  return db.add('customer_payments', payment as CustomerPayment);
+};
+
+export const getCustomerPayment = async (id: number) => {
+  const db = await getDB();
+  return db.get('customer_payments', id);
+};
+
+export const getCustomerPaymentsForContact = async (contactId: number) => {
+  const db = await getDB();
+  return db.getAllFromIndex('customer_payments', 'by-contact', contactId);
+};
+
+export const getUnSyncedCustomerPayments = async () => {
+  const db = await getDB();
+  return db.getAllFromIndex('customer_payments', 'by-sync', 0);
+};
+
+export const markCustomerPaymentAsSynced = async (id: number): Promise<void> => {
+  const db = await getDB();
+  const payment = await db.get('customer_payments', id);
+  if (payment) {
+    payment.is_synced = 1;
+    payment.synced_at = Date.now();
+    await db.put('customer_payments', payment);
+  }
+};
+
+// Held cart management
+export const saveHeldCart = async (heldCart: HeldCart): Promise<number> => {
+  const db = await getDB();
+  heldCart.held_at = heldCart.held_at || new Date().toISOString();
+  return db.put('held_carts', heldCart);
+};
+
+export const getHeldCarts = async () => {
+  const db = await getDB();
+  const heldCarts = await db.getAllFromIndex('held_carts', 'by-date');
+  // Newest first
+  return heldCarts.reverse();
+};
+
+export const deleteHeldCart = async (id: number): Promise<void> => {
+  const db = await getDB();
+  await db.delete('held_carts', id);
+};
+
+// Cart session management (crash/reload recovery)
+export const getCartSessionKey = (userId: number | string, locationId: number | string | null): string => {
+  return `${userId}_${locationId ?? 'none'}`;
+};
+
+export const saveCartSession = async (session: CartSession): Promise<void> => {
+  const db = await getDB();
+  session.updated_at = new Date().toISOString();
+  await db.put('cart_sessions', session);
+};
+
+export const getCartSession = async (key: string) => {
+  try {
+    const db = await getDB();
+    return db.get('cart_sessions', key);
+  } catch (error) {
+    console.error('Error getting cart session from IndexedDB:', error);
+    return null;
+  }
+};
+
+export const deleteCartSession = async (key: string): Promise<void> => {
+  const db = await getDB();
+  await db.delete('cart_sessions', key);
+};
+
 // Business settings
 export const saveBusinessSettings = async (settings: any) => {
   const db = await getDB();
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader, ShoppingCart, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import CustomerDetailsForm from '@/components/customers/CustomerDetailsForm';
+import CustomerLedger from '@/components/customers/CustomerLedger';
+import { Customer, useCustomer } from '@/context/CustomerContext';
+import { useNetwork } from '@/context/NetworkContext';
+import { BusinessSettings, getBusinessSettings } from '@/lib/businessSettings';
+import { getContact } from '@/lib/storage';
+import { CustomerHistory, getCustomerHistory } from '@/services/customerHistoryService';
+import { isTemporaryContactId } from '@/services/customerService';
+import { formatCurrencySync } from '@/utils/formatting';
+import { toast } from 'sonner';
+
+const CustomerDetail = () => {
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { setSelectedCustomer } = useCustomer();
+  const { isOnline } = useNetwork();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [history, setHistory] = useState<CustomerHistory | null>(null);
+  const [businessSettings, setBusinessSettings] = useState<BusinessSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingHistory, setLoadingHistory] = useState(true);
+  const [editing, setEditing] = useState(searchParams.get('edit') === '1');
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  const contactId = Number(id);
+
+  useEffect(() => {
+    const loadCustomer = async () => {
+      setLoading(true);
+      try {
+        const [storedCustomer, settings] = await Promise.all([
+          getContact(contactId),
+          getBusinessSettings(),
+        ]);
+        setCustomer(storedCustomer || null);
+        setBusinessSettings(settings);
+      } catch (error) {
+        console.error('Error loading customer:', error);
+        toast.error('Failed to load customer');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCustomer();
+  }, [contactId]);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoadingHistory(true);
+      try {
+        setHistory(await getCustomerHistory(contactId, isOnline));
+      } catch (error) {
+        console.error('Error loading purchase history:', error);
+        toast.error('Failed to load purchase history');
+      } finally {
+        setLoadingHistory(false);
+      }
+    };
+
+    loadHistory();
+  }, [contactId, isOnline, historyVersion]);
+
+  const formatAmount = (amount: number) => {
+    return businessSettings ? formatCurrencySync(amount, businessSettings) : amount.toFixed(2);
+  };
+
+  // Put the customer on the open order and go to the till
+  const handleUseInSale = () => {
+    if (!customer) return;
+    setSelectedCustomer(customer);
+    toast.success(`${customer.name} added to the current sale`);
+    navigate('/pos');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader className="h-8 w-8 animate-spin text-sadiid-600" />
+        <span className="ml-2">Loading customer...</span>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="container mx-auto space-y-4">
+        <p className="text-gray-500">This customer isn't stored on this device.</p>
+        <Button variant="outline" asChild>
+          <Link to="/customers">Back to customers</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/customers" aria-label="Back to customers">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div className="h-10 w-10 rounded-full bg-sadiid-100 flex items-center justify-center">
+            <User className="h-5 w-5 text-sadiid-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">{customer.name}</h1>
+            <p className="text-sm text-gray-500">
+              {isTemporaryContactId(customer.id) ? 'Waiting to upload' : customer.mobile || customer.contact_id}
+            </p>
+          </div>
+        </div>
+        <Button className="bg-sadiid-600 hover:bg-sadiid-700" onClick={handleUseInSale}>
+          <ShoppingCart className="h-4 w-4 mr-2" />
+          Use in Current Sale
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Lifetime value</CardDescription>
+            <CardTitle>{history ? formatAmount(history.lifetime_value) : '-'}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Last visit</CardDescription>
+            <CardTitle>
+              {history?.last_visit ? new Date(history.last_visit).toLocaleDateString() : 'Never'}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Outstanding balance</CardDescription>
+            <CardTitle className={history && history.outstanding_balance > 0 ? 'text-red-600' : ''}>
+              {history ? formatAmount(history.outstanding_balance) : '-'}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <CustomerDetailsForm
+        customer={customer}
+        editing={editing}
+        onEditingChange={setEditing}
+        onSaved={setCustomer}
+      />
+
+      <CustomerLedger customer={customer} onChange={() => setHistoryVersion(version => version + 1)} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Purchase History</CardTitle>
+          {history && !history.includes_server && (
+            <CardDescription>Showing sales on this device only - connect to see sales from the server.</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {loadingHistory ? (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader className="h-4 w-4 animate-spin mr-2" />
+              Loading purchases...
+            </div>
+          ) : !history || history.purchases.length === 0 ? (
+            <p className="text-sm text-gray-500">No purchases yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Due</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.purchases.map(purchase => (
+                  <TableRow key={purchase.key}>
+                    <TableCell>{purchase.invoice_no || (purchase.local_id ? `#${purchase.local_id}` : '-')}</TableCell>
+                    <TableCell>{new Date(purchase.transaction_date).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatAmount(purchase.total)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(purchase.paid)}</TableCell>
+                    <TableCell className={`text-right ${purchase.due > 0 ? 'text-red-600' : ''}`}>
+                      {formatAmount(purchase.due)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={purchase.is_synced ? 'outline' : 'secondary'}>
+                        {purchase.is_synced ? 'Synced' : 'Pending sync'}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomerDetail;
@@ -3,12 +3,14 @@ import { Users, Plus, Search } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import CustomerList from '@/components/customers/CustomerList';
+import AddCustomerDialog from '@/components/customers/AddCustomerDialog';
 import { useNetwork } from '@/context/NetworkContext';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import NetworkStatusIndicator from '@/components/ui/NetworkStatusIndicator';
 
 const Customers = () => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [addingCustomer, setAddingCustomer] = useState(false);
   const { isOnline } = useNetwork();
 
   return (
@@ -33,7 +35,7 @@ const Customers = () => {
               onChange={(e) => setSearchQuery(e.target.value)}
             />
           </div>
-          <Button className="bg-sadiid-600 hover:bg-sadiid-700">
+          <Button className="bg-sadiid-600 hover:bg-sadiid-700" onClick={() => setAddingCustomer(true)}>
             <Plus className="h-4 w-4 mr-2" />
             <span>Add Customer</span>
           </Button>
@@ -65,6 +67,8 @@ const Customers = () => {
           </TabsContent>
         </Tabs>
       </div>
+
+      <AddCustomerDialog open={addingCustomer} onOpenChange={setAddingCustomer} />
     </div>
   );
 };
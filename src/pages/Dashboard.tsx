@@ -2,21 +2,23 @@
 import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { syncDataOnLogin, startBackgroundSync } from '../services/syncService';
+import { syncDataOnLogin, startBackgroundSync, subscribeToSync } from '@/services/sync';
 import { getQueueStats } from '@/services/syncQueue';
 import { toast } from 'sonner';
 import { useNetwork } from '../context/NetworkContext';
-import { getProducts, getContacts, getUnSyncedSales } from '@/lib/storage';
+import { getProducts, getContacts, getUnSyncedSales, getUnSyncedSaleReturns } from '@/lib/storage';
 import { CheckCircle, AlertCircle, WifiOff, RefreshCcw } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
 const Dashboard = () => {
   const { isOnline, connectionQuality } = useNetwork();
   const [syncing, setSyncing] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<string | null>(null);
   const [stats, setStats] = useState({
     products: 0,
     customers: 0,
     pendingSales: 0,
+    pendingReturns: 0,
   });
   
   const [queueStats, setQueueStats] = useState({
@@ -40,8 +42,22 @@ const Dashboard = () => {
       loadStats();
     }, 60000); // Refresh every minute
     
+    // Follow syncs started anywhere, including in the background
+    const unsubscribe = subscribeToSync((event) => {
+      if (event.type === 'sync_started') {
+        setSyncing(true);
+      } else if (event.type === 'adapter_progress') {
+        setSyncProgress(`Syncing ${event.entity} ${event.completed}/${event.total}...`);
+      } else if (event.type === 'sync_completed' || event.type === 'sync_failed') {
+        setSyncing(false);
+        setSyncProgress(null);
+        loadStats();
+      }
+    });
+    
     return () => {
       clearInterval(interval);
+      unsubscribe();
     };
   }, []);
   
@@ -59,11 +75,13 @@ const Dashboard = () => {
       const products = await getProducts();
       const contacts = await getContacts();
       const pendingSales = await getUnSyncedSales();
+      const pendingReturns = await getUnSyncedSaleReturns();
       
       setStats({
         products: products?.length || 0,
         customers: contacts?.length || 0,
         pendingSales: pendingSales?.length || 0,
+        pendingReturns: pendingReturns?.length || 0,
       });
       
       // Load queue stats
@@ -190,7 +208,7 @@ const Dashboard = () => {
           disabled={syncing || !isOnline}
           className="bg-sadiid-600 hover:bg-sadiid-700"
         >
-          {syncing ? 'Syncing...' : 'Sync Data'}
+          {syncing ? syncProgress || 'Syncing...' : 'Sync Data'}
         </Button>
       </div>
       
@@ -223,10 +241,13 @@ const Dashboard = () => {
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-lg font-medium">Pending Sales</CardTitle>
-            <CardDescription>Sales waiting to be synced</CardDescription>
+            <CardDescription>Sales and returns waiting to be synced</CardDescription>
           </CardHeader>
           <CardContent>
             <p className="text-3xl font-bold text-sadiid-600">{stats.pendingSales}</p>
+            {stats.pendingReturns > 0 && (
+              <p className="text-sm text-red-600 mt-1">+ {stats.pendingReturns} returns</p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -1,11 +1,26 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Search, Menu, Table, X, ChevronDown, User } from 'lucide-react';
+import { Search, Menu, Table, X, ChevronDown, User, UserPlus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import POSProductGrid from '@/components/pos/POSProductGrid';
 import POSOrderDetails from '../components/pos/POSOrderDetails';
 import POSCategoryFilters from '../components/pos/POSCategoryFilters';
+import POSOrderTabs from '@/components/pos/POSOrderTabs';
+import VariationPickerDialog from '@/components/pos/VariationPickerDialog';
+import AddCustomerDialog from '@/components/customers/AddCustomerDialog';
 import { useCustomer } from '@/context/CustomerContext';
+import { CartItem, useCart } from '@/context/CartContext';
+import { toast } from 'sonner';
+import useBarcodeScanner from '@/hooks/useBarcodeScanner';
+import {
+  buildCartItem,
+  findProductByCode,
+  hasMultipleVariations,
+  ProductRecord,
+  ProductVariation,
+} from '@/utils/productUtils';
+import { logUnknownScan } from '@/lib/storage';
+import { playScanFailure, playScanSuccess } from '@/utils/scanFeedback';
 
 const POS = () => {
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -15,7 +30,66 @@ const POS = () => {
   // Customer selection states
   const [customerSearchTerm, setCustomerSearchTerm] = useState('');
   const [searchingCustomer, setSearchingCustomer] = useState(false);
+  const [addingCustomer, setAddingCustomer] = useState(false);
+  // Product whose parent code was scanned, waiting for a variation to be picked
+  const [pickingProduct, setPickingProduct] = useState<ProductRecord | null>(null);
   const { selectedCustomer, setSelectedCustomer, customers } = useCustomer();
+  const { cart, addItem } = useCart();
+  
+  // Scanned codes go straight into the cart instead of filtering the grid
+  const handleScan = async (code: string) => {
+    setSearchTerm('');
+    
+    try {
+      const match = await findProductByCode(code);
+      
+      // The parent's code doesn't say which size, colour etc. is being sold
+      if (match && !match.variation && hasMultipleVariations(match.product)) {
+        playScanSuccess();
+        setPickingProduct(match.product);
+        return;
+      }
+      
+      const cartItem = match ? buildCartItem(match.product, match.variation, cart.location_id, cart.pricing) : null;
+      
+      if (!cartItem) {
+        playScanFailure();
+        await logUnknownScan(code);
+        toast.error(match ? `${match.product.name} has no price` : `No product found for "${code}"`);
+        return;
+      }
+      
+      addScannedItem(cartItem);
+    } catch (error) {
+      console.error('Error handling scan:', error);
+      playScanFailure();
+      toast.error('Failed to look up scanned code');
+    }
+  };
+  
+  const addScannedItem = (cartItem: Omit<CartItem, 'id'>) => {
+    if (!addItem(cartItem)) {
+      playScanFailure();
+      return;
+    }
+    
+    playScanSuccess();
+    toast.success(`Added ${cartItem.name} to cart`);
+  };
+  
+  const handlePickVariation = (product: ProductRecord, variation: ProductVariation) => {
+    setPickingProduct(null);
+    const cartItem = buildCartItem(product, variation, cart.location_id, cart.pricing);
+    if (!cartItem) {
+      playScanFailure();
+      toast.error(`${product.name} has no price`);
+      return;
+    }
+    
+    addScannedItem(cartItem);
+  };
+  
+  useBarcodeScanner({ onScan: handleScan });
 
   // Focus search input when page loads and on key press
   useEffect(() => {
@@ -120,6 +194,9 @@ const POS = () => {
               </Button>
             </div>
             
+            {/* Open orders - each tab keeps its own cart and customer */}
+            <POSOrderTabs />
+            
             {/* Customer Selection - Add this new component */}
             <div className="mb-4 customer-dropdown">
               <label className="text-sm font-medium text-gray-700 mb-1 block">Customer</label>
@@ -157,6 +234,16 @@ const POS = () => {
                           <User className="h-4 w-4 mr-2 text-gray-500" />
                           No Customer Selected
                         </div>
+                        <div 
+                          className="px-4 py-2 hover:bg-gray-100 cursor-pointer flex items-center text-sadiid-600"
+                          onClick={() => {
+                            setSearchingCustomer(false);
+                            setAddingCustomer(true);
+                          }}
+                        >
+                          <UserPlus className="h-4 w-4 mr-2" />
+                          Add New Customer
+                        </div>
                         {filteredCustomers.map(customer => (
                           <div 
                             key={customer.id} 
@@ -187,9 +274,28 @@ const POS = () => {
                   </Button>
                 )}
               </div>
+              {cart.pricing && (
+                <p className="text-xs text-sadiid-600 mt-1">
+                  {cart.pricing.selling_price_group_id
+                    ? `${cart.pricing.name} prices`
+                    : `${cart.pricing.name}: ${cart.pricing.percent > 0 ? '+' : ''}${cart.pricing.percent}% on prices`}
+                </p>
+              )}
             </div>
             
             <POSOrderDetails />
+
+            <AddCustomerDialog
+              open={addingCustomer}
+              onOpenChange={setAddingCustomer}
+              onCreated={selectCustomer}
+            />
+
+            <VariationPickerDialog
+              product={pickingProduct}
+              onOpenChange={(open) => !open && setPickingProduct(null)}
+              onSelect={handlePickVariation}
+            />
           </div>
         </div>
       </div>
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react'; // Remove useMemo import if not used
-import { getSales, markSaleAsSynced } from '@/lib/storage';
-import { createSale } from '@/services/api';
+import { getSales } from '@/lib/storage';
+import { syncSale } from '@/services/saleSyncService';
 import { useNetwork } from '@/context/NetworkContext';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
@@ -15,7 +15,28 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { formatCurrencySync } from '@/utils/formatting';
 import { getBusinessSettings } from '@/lib/businessSettings';
+import { getTenderedTotal } from '@/utils/paymentUtils';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import SaleReturnDialog from '@/components/sales/SaleReturnDialog';
+import SaleReturnsList from '@/components/sales/SaleReturnsList';
+import QuotationsList from '@/components/sales/QuotationsList';
+import ReceiptPreviewDialog from '@/components/receipt/ReceiptPreviewDialog';
+import { getReturnedQuantities } from '@/services/returnService';
+import { getSaleType, StoredSale } from '@/utils/saleUtils';
+
+type ReturnStatus = 'partial' | 'full';
+
+// How much of a sale has been returned, if any
+const getReturnStatus = async (sale: StoredSale): Promise<ReturnStatus | null> => {
+  const returned = await getReturnedQuantities(sale.local_id);
+  const returnedCount = Object.values(returned).reduce((sum, quantity) => sum + quantity, 0);
+  if (returnedCount <= 0) {
+    return null;
+  }
+  const soldCount = (sale.products || []).reduce((sum, product) => sum + product.quantity, 0);
+  return returnedCount >= soldCount ? 'full' : 'partial';
+};
 
 const Sales = () => {
   const [sales, setSales] = useState<any[]>([]);
@@ -27,6 +48,10 @@ const Sales = () => {
     totalPages: 0
   });
   const [businessSettings, setBusinessSettings] = useState(null);
+  const [returnStatuses, setReturnStatuses] = useState<Record<number, ReturnStatus | null>>({});
+  const [returnSale, setReturnSale] = useState<StoredSale | null>(null);
+  const [returnsVersion, setReturnsVersion] = useState(0);
+  const [receiptSale, setReceiptSale] = useState<StoredSale | null>(null);
   const { isOnline } = useNetwork();
 
   // Load business settings at component mount
@@ -47,8 +72,13 @@ const Sales = () => {
   const loadSales = async (page = 1) => {
     setLoading(true);
     try {
-      const result = await getSales(page, pagination.limit);
+      const result = await getSales(page, pagination.limit, sale => getSaleType(sale) === 'final');
       setSales(result.data);
+      
+      const statuses = await Promise.all(result.data.map(getReturnStatus));
+      setReturnStatuses(Object.fromEntries(
+        result.data.map((sale, index) => [sale.local_id, statuses[index]])
+      ));
       setPagination({
         ...pagination,
         page: result.page,
@@ -76,35 +106,44 @@ const Sales = () => {
     }
 
     try {
-      // Remove local properties before sending
-      const { local_id, is_synced, ...saleData } = sale;
-      
-      // Send to server
-      await createSale(saleData);
-      
-      // Mark as synced locally
-      await markSaleAsSynced(local_id);
+      // Goes through the sale's queue operation, so it is never sent twice
+      const result = await syncSale(sale);
       
       // Refresh data
       loadSales(pagination.page);
       
-      toast.success('Sale synced successfully');
+      if (result === 'synced' || result === 'reconciled') {
+        toast.success('Sale synced successfully');
+      } else if (result === 'in_progress') {
+        toast.info('Sale is already being synced');
+      } else {
+        toast.error('Failed to sync sale');
+      }
     } catch (error) {
       console.error('Error syncing sale:', error);
       toast.error('Failed to sync sale');
     }
   };
 
+  const handleReturned = () => {
+    setReturnsVersion(version => version + 1);
+    loadSales(pagination.page);
+  };
+
   // Create a formatter function - regular function, not using hooks
-  const formatAmount = (payment: any) => {
-    if (!payment || !payment[0]) return 'N/A';
+  const formatAmount = (sale: any) => {
+    const payment = sale.payment;
+    if (sale.final_total === undefined && (!payment || !payment[0])) return 'N/A';
+    
+    // Older records have no final total; a sale can be settled with several tenders, so use their sum
+    const amount = sale.final_total ?? getTenderedTotal(payment, businessSettings?.currency_precision ?? 2);
     
     // Use sync version if available or default formatting
     if (typeof formatCurrencySync === 'function' && businessSettings) {
-      return formatCurrencySync(payment[0].amount, businessSettings);
+      return formatCurrencySync(amount, businessSettings);
     } else {
       // Fallback to simple formatting
-      return `$${parseFloat(payment[0].amount).toFixed(2)}`;
+      return `$${amount.toFixed(2)}`;
     }
   };
 
@@ -120,6 +159,14 @@ const Sales = () => {
         </Button>
       </div>
 
+      <Tabs defaultValue="sales" className="w-full">
+        <TabsList className="mb-4">
+          <TabsTrigger value="sales">Sales</TabsTrigger>
+          <TabsTrigger value="quotations">Quotations &amp; Drafts</TabsTrigger>
+          <TabsTrigger value="returns">Returns</TabsTrigger>
+        </TabsList>
+        
+        <TabsContent value="sales">
       {loading ? (
         <div className="flex justify-center items-center h-64">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sadiid-600"></div>
@@ -130,7 +177,7 @@ const Sales = () => {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>ID</TableHead>
+                  <TableHead>Invoice</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Customer</TableHead>
                   <TableHead>Total</TableHead>
@@ -142,22 +189,43 @@ const Sales = () => {
                 {sales.length > 0 ? (
                   sales.map((sale) => (
                     <TableRow key={sale.local_id}>
-                      <TableCell>{sale.local_id}</TableCell>
+                      <TableCell>{sale.invoice_no || sale.local_id}</TableCell>
                       <TableCell>
                         {new Date(sale.transaction_date).toLocaleDateString()}
                       </TableCell>
                       <TableCell>
-                        {sale.customer_id || 'Walk-in Customer'}
+                        {sale.customer_name || sale.customer_id || 'Walk-in Customer'}
                       </TableCell>
                       <TableCell>
-                        {formatAmount(sale.payment)}
+                        {formatAmount(sale)}
                       </TableCell>
                       <TableCell>
                         <Badge variant={sale.is_synced ? "success" : "destructive"}>
                           {sale.is_synced ? 'Synced' : 'Not Synced'}
                         </Badge>
+                        {returnStatuses[sale.local_id] && (
+                          <Badge variant="outline" className="ml-2 border-red-300 text-red-600">
+                            {returnStatuses[sale.local_id] === 'full' ? 'Returned' : 'Partially returned'}
+                          </Badge>
+                        )}
                       </TableCell>
-                      <TableCell>
+                      <TableCell className="space-x-2">
+                        <Button 
+                          size="sm" 
+                          variant="outline"
+                          onClick={() => setReceiptSale(sale)}
+                        >
+                          Receipt
+                        </Button>
+                        {returnStatuses[sale.local_id] !== 'full' && sale.products?.length > 0 && (
+                          <Button 
+                            size="sm" 
+                            variant="outline"
+                            onClick={() => setReturnSale(sale)}
+                          >
+                            Return
+                          </Button>
+                        )}
                         {!sale.is_synced && (
                           <Button 
                             size="sm" 
@@ -214,6 +282,27 @@ const Sales = () => {
           )}
         </>
       )}
+        </TabsContent>
+        
+        <TabsContent value="quotations">
+          <QuotationsList />
+        </TabsContent>
+        
+        <TabsContent value="returns">
+          <SaleReturnsList refreshKey={returnsVersion} />
+        </TabsContent>
+      </Tabs>
+      
+      <ReceiptPreviewDialog
+        sale={receiptSale}
+        onOpenChange={(open) => !open && setReceiptSale(null)}
+      />
+      
+      <SaleReturnDialog
+        sale={returnSale}
+        onOpenChange={(open) => !open && setReturnSale(null)}
+        onReturned={handleReturned}
+      />
     </div>
   );
 };
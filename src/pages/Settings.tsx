@@ -1,6 +1,10 @@
 import React from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import BusinessLocationSelector from '@/components/settings/BusinessLocationSelector';
+import POSPreferencesSettings from '@/components/settings/POSPreferencesSettings';
+import UnknownScansSettings from '@/components/settings/UnknownScansSettings';
+import ReceiptPrintSettings from '@/components/settings/ReceiptPrintSettings';
+import InvoiceNumberSettings from '@/components/settings/InvoiceNumberSettings';
 import BusinessDetailsTest from '@/components/BusinessDetailsTest';
 
 const Settings = () => {
@@ -18,6 +22,10 @@ const Settings = () => {
         <TabsContent value="general">
           <div className="space-y-6">
             <BusinessLocationSelector />
+            <POSPreferencesSettings />
+            <InvoiceNumberSettings />
+            <ReceiptPrintSettings />
+            <UnknownScansSettings />
             {/* Other general settings */}
           </div>
         </TabsContent>
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { toast } from 'sonner';
 import { getToken, removeToken, saveToken } from '@/lib/storage';
+import type { TaxBreakdownEntry } from '@/utils/taxUtils';
 
 const BASE_URL = 'https://erp.sadiid.net';
 
@@ -23,6 +24,19 @@ api.interceptors.request.use(
   }
 );
 
+// What a failed request rejects with. Offline errors are copied onto a plain object, so
+// they are no longer Error or AxiosError instances.
+interface RequestError {
+  isOffline?: boolean;
+  message?: string;
+  response?: {
+    data?: {
+      message?: string;
+      original?: { error?: { message?: string } };
+    };
+  };
+}
+
 // Response interceptor for API calls
 api.interceptors.response.use(
   (response) => {
@@ -76,9 +90,10 @@ export const getCurrentUser = async () => {
 };
 
 // ============== PRODUCTS ==============
-export const fetchProducts = async (page = 1, perPage = 50) => {
+export const fetchProducts = async (page = 1, perPage = 50, params = {}) => {
   try {
-    const response = await api.get(`/connector/api/product?per_page=${perPage}&page=${page}`);
+    const queryParams = { page, per_page: perPage, ...params };
+    const response = await api.get('/connector/api/product', { params: queryParams });
     return response.data;
   } catch (error) {
     console.error('Error fetching products:', error);
@@ -86,10 +101,43 @@ export const fetchProducts = async (page = 1, perPage = 50) => {
   }
 };
 
+// ============== TAX RATES ==============
+export const fetchTaxRates = async () => {
+  try {
+    const response = await api.get('/connector/api/tax');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching tax rates:', error);
+    throw error;
+  }
+};
+
+// ============== PRICING ==============
+export const fetchCustomerGroups = async () => {
+  try {
+    const response = await api.get('/connector/api/customer-group');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching customer groups:', error);
+    throw error;
+  }
+};
+
+export const fetchSellingPriceGroups = async () => {
+  try {
+    const response = await api.get('/connector/api/selling-price-group');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching selling price groups:', error);
+    throw error;
+  }
+};
+
 // ============== CONTACTS ==============
-export const fetchContacts = async (page = 1, perPage = 50, type = 'customer') => {
+export const fetchContacts = async (page = 1, perPage = 50, type = 'customer', params = {}) => {
   try {
-    const response = await api.get(`/connector/api/contactapi?type=${type}&per_page=${perPage}&page=${page}`);
+    const queryParams = { type, page, per_page: perPage, ...params };
+    const response = await api.get('/connector/api/contactapi', { params: queryParams });
     return response.data;
   } catch (error) {
     console.error('Error fetching contacts:', error);
@@ -97,7 +145,24 @@ export const fetchContacts = async (page = 1, perPage = 50, type = 'customer') =
   }
 };
 
-export const createContact = async (contactData: any) => {
+// Contact fields sent when a customer is created or edited
+export interface ContactData {
+  type: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  mobile?: string | null;
+  email?: string | null;
+  tax_number?: string | null;
+  address_line_1?: string | null;
+  address_line_2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  zip_code?: string | null;
+  customer_group_id?: number | null;
+}
+
+export const createContact = async (contactData: ContactData) => {
   try {
     const response = await api.post('/connector/api/contactapi', contactData);
     return response.data;
@@ -107,6 +172,35 @@ export const createContact = async (contactData: any) => {
   }
 };
 
+export const updateContact = async (id: number, contactData: ContactData) => {
+  try {
+    const response = await api.put(`/connector/api/contactapi/${id}`, contactData);
+    return response.data;
+  } catch (error) {
+    console.error('Error updating contact:', error);
+    throw error;
+  }
+};
+
+export interface ContactPaymentData extends SalePayment {
+  contact_id: number;
+  // YYYY-MM-DD HH:MM:SS
+  paid_on: string;
+  // Generated when the payment is taken, so sync can recognise a re-send
+  client_uuid?: string;
+}
+
+// Pay off a customer's due invoices - the server settles the oldest first
+export const createContactPayment = async (paymentData: ContactPaymentData) => {
+  try {
+    const response = await api.post('/connector/api/contactapi-payment', paymentData);
+    return response.data;
+  } catch (error) {
+    console.error('Error creating contact payment:', error);
+    throw error;
+  }
+};
+
 // ============== SALES ==============
 export interface SaleProduct {
   product_id: number;
@@ -116,7 +210,11 @@ export interface SaleProduct {
   tax_rate_id?: number | null;
   tax_amount?: number;
   discount_amount?: number;
+  discount_type?: 'fixed' | 'percentage';
   note?: string;
+  // Local record keeping only - used to show and return the line later
+  name?: string;
+  unit_price_inc_tax?: number;
 }
 
 export interface SalePayment {
@@ -124,6 +222,10 @@ export interface SalePayment {
   method: string;
   account_id?: number | null;
   note?: string;
+  card_number?: string;
+  card_transaction_number?: string;
+  cheque_number?: string;
+  bank_account_number?: string;
 }
 
 export interface SaleData {
@@ -134,8 +236,10 @@ export interface SaleData {
   status: string;
   is_quotation?: number;
   is_suspended?: number;
+  tax_rate_id?: number | null;
   tax_amount?: number;
   discount_amount?: number;
+  discount_type?: 'fixed' | 'percentage';
   sale_note?: string;
   staff_note?: string;
   shipping_details?: string | null;
@@ -143,8 +247,24 @@ export interface SaleData {
   shipping_status?: string | null;
   delivered_to?: string | null;
   shipping_charges?: number;
+  round_off_amount?: number;
+  // Device-issued invoice number, e.g. INV-K3QZ-1-000042
+  invoice_no?: string;
+  // Generated when the sale is made, so the server and sync can recognise a re-send
+  client_uuid?: string;
   products: SaleProduct[];
   payment: SalePayment[];
+  // Local record keeping only - these are not sent to the API
+  final_total?: number;
+  tax_breakdown?: TaxBreakdownEntry[];
+  cash_tendered?: number;
+  change_return?: number;
+  // Left due on the customer's account with the pay later tender
+  credit_amount?: number;
+  transaction_id?: number | null;
+  customer_name?: string;
+  // Base64 ZATCA QR payload, fixed when the sale is made so reprints match
+  zatca_qr?: string;
 }
 
 export const createSale = async (saleData: SaleData) => {
@@ -165,8 +285,8 @@ export const createSale = async (saleData: SaleData) => {
     const contactId = saleData.contact_id || saleData.customer_id || null;
     
     // Helper function to remove null/undefined/empty values
-    const removeEmptyValues = (obj: any): any => {
-      const result = {} as any;
+    const removeEmptyValues = (obj: object): Record<string, unknown> => {
+      const result: Record<string, unknown> = {};
       Object.entries(obj).forEach(([key, value]) => {
         // Skip null, undefined, empty strings
         if (value === null || value === undefined || value === '') {
@@ -199,7 +319,7 @@ export const createSale = async (saleData: SaleData) => {
     };
 
     // Create initial request data with all required fields
-    const sellData: any = {
+    const sellData: Record<string, unknown> = {
       location_id: saleData.location_id,
       contact_id: contactId,
       transaction_date: saleData.transaction_date,
@@ -211,11 +331,18 @@ export const createSale = async (saleData: SaleData) => {
         quantity: product.quantity,
         unit_price: product.unit_price,
         ...(product.tax_rate_id && { tax_rate_id: product.tax_rate_id }),
-        ...(product.discount_amount && { discount_amount: product.discount_amount, discount_type: 'fixed' }),
+        ...(product.discount_amount && {
+          discount_amount: product.discount_amount,
+          discount_type: product.discount_type || 'fixed'
+        }),
         ...(product.note && { note: product.note })
       })),
       // Only include optional fields that have values
-      ...(saleData.discount_amount && { discount_amount: saleData.discount_amount, discount_type: 'fixed' }),
+      ...(saleData.discount_amount && {
+        discount_amount: saleData.discount_amount,
+        discount_type: saleData.discount_type || 'fixed'
+      }),
+      ...(saleData.tax_rate_id && { tax_rate_id: saleData.tax_rate_id }),
       ...(saleData.tax_amount && { tax_amount: saleData.tax_amount }),
       ...(saleData.sale_note && { sale_note: saleData.sale_note }),
       ...(saleData.staff_note && { staff_note: saleData.staff_note }),
@@ -225,7 +352,10 @@ export const createSale = async (saleData: SaleData) => {
       ...(saleData.shipping_address && { shipping_address: saleData.shipping_address }),
       ...(saleData.shipping_status && { shipping_status: saleData.shipping_status }),
       ...(saleData.delivered_to && { delivered_to: saleData.delivered_to }),
-      ...(saleData.shipping_charges && { shipping_charges: saleData.shipping_charges })
+      ...(saleData.shipping_charges && { shipping_charges: saleData.shipping_charges }),
+      ...(saleData.round_off_amount && { round_off_amount: saleData.round_off_amount }),
+      ...(saleData.invoice_no && { invoice_no: saleData.invoice_no }),
+      ...(saleData.client_uuid && { client_uuid: saleData.client_uuid })
     };
 
     // Add payments only if they exist
@@ -234,7 +364,11 @@ export const createSale = async (saleData: SaleData) => {
         amount: payment.amount,
         method: payment.method,
         ...(payment.account_id && { account_id: payment.account_id }),
-        ...(payment.note && { note: payment.note })
+        ...(payment.note && { note: payment.note }),
+        ...(payment.card_number && { card_number: payment.card_number }),
+        ...(payment.card_transaction_number && { card_transaction_number: payment.card_transaction_number }),
+        ...(payment.cheque_number && { cheque_number: payment.cheque_number }),
+        ...(payment.bank_account_number && { bank_account_number: payment.bank_account_number })
       }));
     }
 
@@ -262,14 +396,15 @@ export const createSale = async (saleData: SaleData) => {
         message: 'Sale created but response format differs'
       };
     }
-  } catch (error: any) {
+  } catch (error) {
+    const requestError = error as RequestError;
     // Special handling for contact not found error
-    if (error.response?.data?.original?.error?.message === "No query results for model [App\\Contact].") {
+    if (requestError.response?.data?.original?.error?.message === "No query results for model [App\\Contact].") {
       return {
         success: false,
         error: "The customer ID provided doesn't exist in the system. Please use a valid customer ID or provide a default walk-in customer ID.",
-        details: error.response?.data,
-        isOffline: error.isOffline || false
+        details: requestError.response?.data,
+        isOffline: requestError.isOffline || false
       };
     }
     
@@ -278,9 +413,58 @@ export const createSale = async (saleData: SaleData) => {
     
     return {
       success: false,
-      error: error.response?.data?.message || 'Failed to create sale',
-      details: error.response?.data || error.message,
-      isOffline: error.isOffline || false
+      error: requestError.response?.data?.message || 'Failed to create sale',
+      details: requestError.response?.data || requestError.message,
+      isOffline: requestError.isOffline || false
+    };
+  }
+};
+
+export const deleteSale = async (transactionId: number) => {
+  try {
+    const response = await api.delete(`/connector/api/sell/${transactionId}`);
+    return response.data;
+  } catch (error) {
+    console.error('Error deleting sale:', error);
+    throw error;
+  }
+};
+
+// Single sale with its sell lines
+export const fetchSale = async (transactionId: number) => {
+  try {
+    const response = await api.get(`/connector/api/sell/${transactionId}`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching sale:', error);
+    throw error;
+  }
+};
+
+// ============== SELL RETURNS ==============
+export interface SellReturnData {
+  transaction_id: number;
+  transaction_date: string;
+  // quantity is the total returned on the line so far, not just this return
+  products: { sell_line_id: number; quantity: number; unit_price_inc_tax: number }[];
+  // Refund paid out for this return, in the same shape as a sale's payments
+  payments?: SalePayment[];
+}
+
+export const createSellReturn = async (returnData: SellReturnData) => {
+  try {
+    const response = await api.post('/connector/api/sell-return', returnData);
+    return {
+      success: true,
+      data: response.data?.data ?? response.data
+    };
+  } catch (error) {
+    console.error('Error creating sell return:', error);
+    const requestError = error as RequestError;
+    return {
+      success: false,
+      error: requestError.response?.data?.message || 'Failed to create sell return',
+      isOffline: requestError.isOffline || false
     };
   }
 };
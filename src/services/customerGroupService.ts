@@ -0,0 +1,124 @@
+/**
+ * Customer groups and the prices they get. A group either adjusts the default price by
+ * a percentage, or uses a selling price group's prices set per variation in the ERP.
+ */
+import type { Customer } from '@/context/CustomerContext';
+import {
+  getCustomerGroup,
+  getSellingPriceGroup,
+  saveCustomerGroups,
+} from '@/lib/storage';
+import { fetchCustomerGroups, fetchSellingPriceGroups } from '@/services/api';
+
+export interface CustomerGroup {
+  id: number;
+  name: string;
+  // Percentage added to the default price - negative for a discount
+  amount: number;
+  price_calculation_type: 'percentage' | 'selling_price_group';
+  selling_price_group_id: number | null;
+}
+
+export interface SellingPriceGroup {
+  id: number;
+  name: string;
+  description?: string;
+  is_active: boolean;
+}
+
+// How an order is priced for its customer. Kept on the order so it works offline.
+export interface CustomerPricing {
+  customer_group_id: number;
+  name: string;
+  // Percentage added to default prices, when the group isn't priced by a selling price group
+  percent: number;
+  selling_price_group_id: number | null;
+}
+
+// Customer group as returned by the API
+interface ApiCustomerGroup {
+  id: number;
+  name: string;
+  amount?: string | number | null;
+  price_calculation_type?: string | null;
+  selling_price_group_id?: number | null;
+}
+
+// Selling price group as returned by the API
+interface ApiSellingPriceGroup {
+  id: number;
+  name: string;
+  description?: string | null;
+  is_active?: number | boolean;
+}
+
+const transformCustomerGroup = (apiData: ApiCustomerGroup): CustomerGroup => ({
+  id: apiData.id,
+  name: apiData.name,
+  amount: parseFloat(String(apiData.amount)) || 0,
+  price_calculation_type: apiData.price_calculation_type === 'selling_price_group' ? 'selling_price_group' : 'percentage',
+  selling_price_group_id: apiData.selling_price_group_id || null,
+});
+
+const transformSellingPriceGroup = (apiData: ApiSellingPriceGroup): SellingPriceGroup => ({
+  id: apiData.id,
+  name: apiData.name,
+  description: apiData.description || undefined,
+  // Groups created before is_active existed are active
+  is_active: apiData.is_active === undefined ? true : Boolean(apiData.is_active),
+});
+
+/**
+ * Download customer groups and selling price groups from the ERP and replace the offline copy
+ * @returns The number of customer groups
+ */
+export const syncCustomerGroups = async (): Promise<number> => {
+  const [groupResponse, priceGroupResponse] = await Promise.all([
+    fetchCustomerGroups(),
+    fetchSellingPriceGroups(),
+  ]);
+  const customerGroups: CustomerGroup[] = (groupResponse?.data || []).map(transformCustomerGroup);
+  const sellingPriceGroups: SellingPriceGroup[] = (priceGroupResponse?.data || []).map(transformSellingPriceGroup);
+  await saveCustomerGroups(customerGroups, sellingPriceGroups);
+  return customerGroups.length;
+};
+
+/**
+ * How a customer's group prices their orders, or null when they pay default prices
+ */
+export const getCustomerPricing = async (customer: Customer | null): Promise<CustomerPricing | null> => {
+  if (!customer?.customer_group_id) {
+    return null;
+  }
+
+  const group: CustomerGroup | undefined = await getCustomerGroup(Number(customer.customer_group_id));
+  if (!group) {
+    return null;
+  }
+
+  if (group.price_calculation_type === 'selling_price_group') {
+    const priceGroup: SellingPriceGroup | undefined = group.selling_price_group_id
+      ? await getSellingPriceGroup(group.selling_price_group_id)
+      : undefined;
+    // An inactive price group is no longer offered in the ERP either
+    if (!priceGroup?.is_active) {
+      return null;
+    }
+    return {
+      customer_group_id: group.id,
+      name: priceGroup.name,
+      percent: 0,
+      selling_price_group_id: priceGroup.id,
+    };
+  }
+
+  if (!group.amount) {
+    return null;
+  }
+  return {
+    customer_group_id: group.id,
+    name: group.name,
+    percent: group.amount,
+    selling_price_group_id: null,
+  };
+};
@@ -0,0 +1,127 @@
+/**
+ * A customer's purchase history, combined from the sales stored on this device and the
+ * sales on the server. Server sales are matched to local ones by transaction ID or
+ * invoice number so a synced sale is only counted once.
+ */
+import { getSalesForContact } from '@/lib/storage';
+import { fetchSales, SalePayment } from '@/services/api';
+import { isTemporaryContactId } from '@/services/customerService';
+import { getRemainingBalance, getTenderedTotal } from '@/utils/paymentUtils';
+import { getSaleType, StoredSale } from '@/utils/saleUtils';
+
+export interface CustomerPurchase {
+  key: string;
+  invoice_no: string | null;
+  transaction_date: string;
+  total: number;
+  paid: number;
+  due: number;
+  // 'local' sales are on this device - synced ones may also be on the server
+  source: 'local' | 'server';
+  is_synced: boolean;
+  local_id?: number;
+}
+
+export interface CustomerHistory {
+  purchases: CustomerPurchase[];
+  lifetime_value: number;
+  last_visit: string | null;
+  outstanding_balance: number;
+  // False when the server couldn't be reached and only local sales are shown
+  includes_server: boolean;
+}
+
+interface ServerSale {
+  id: number;
+  invoice_no?: string;
+  transaction_date: string;
+  final_total?: number | string;
+  status?: string;
+  payment_lines?: { amount?: number | string }[];
+}
+
+const HISTORY_PAGE_SIZE = 100;
+
+const fromLocalSale = (sale: StoredSale): CustomerPurchase => {
+  const total = Number(sale.final_total) || 0;
+  return {
+    key: `local_${sale.local_id}`,
+    invoice_no: sale.invoice_no || null,
+    transaction_date: sale.transaction_date,
+    total,
+    paid: Math.min(total, getTenderedTotal(sale.payment || [])),
+    due: getRemainingBalance(total, sale.payment || []),
+    source: 'local',
+    is_synced: Boolean(sale.is_synced),
+    local_id: sale.local_id,
+  };
+};
+
+const fromServerSale = (sale: ServerSale): CustomerPurchase => {
+  const total = Number(sale.final_total) || 0;
+  const payments: SalePayment[] = (sale.payment_lines || []).map(line => ({
+    amount: Number(line.amount) || 0,
+    method: '',
+  }));
+  return {
+    key: `server_${sale.id}`,
+    invoice_no: sale.invoice_no || null,
+    transaction_date: sale.transaction_date,
+    total,
+    paid: Math.min(total, getTenderedTotal(payments)),
+    due: getRemainingBalance(total, payments),
+    source: 'server',
+    is_synced: true,
+  };
+};
+
+// Every final sale on the server for the customer
+const fetchServerSales = async (contactId: number): Promise<ServerSale[]> => {
+  const sales: ServerSale[] = [];
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await fetchSales(page, HISTORY_PAGE_SIZE, { contact_id: contactId });
+    sales.push(...(response?.data || []));
+    lastPage = response?.meta?.last_page || 1;
+    page++;
+  } while (page <= lastPage);
+
+  return sales.filter(sale => !sale.status || sale.status === 'final');
+};
+
+/**
+ * Load a customer's completed sales, newest first, with their totals
+ * @param includeServer Also fetch the customer's sales from the server
+ */
+export const getCustomerHistory = async (contactId: number, includeServer = true): Promise<CustomerHistory> => {
+  const localSales = (await getSalesForContact(contactId) as StoredSale[])
+    .filter(sale => getSaleType(sale) === 'final');
+  const purchases = localSales.map(fromLocalSale);
+
+  // A customer added at the till has no sales on the server yet
+  let includesServer = isTemporaryContactId(contactId);
+  if (includeServer && !includesServer) {
+    try {
+      const transactionIds = new Set(localSales.map(sale => sale.transaction_id).filter(Boolean));
+      const invoiceNumbers = new Set(localSales.map(sale => sale.invoice_no).filter(Boolean));
+      const serverSales = await fetchServerSales(contactId);
+      purchases.push(...serverSales
+        .filter(sale => !transactionIds.has(sale.id) && !(sale.invoice_no && invoiceNumbers.has(sale.invoice_no)))
+        .map(fromServerSale));
+      includesServer = true;
+    } catch (error) {
+      console.error('Error loading customer sales from the server:', error);
+    }
+  }
+
+  purchases.sort((a, b) => new Date(b.transaction_date).getTime() - new Date(a.transaction_date).getTime());
+
+  return {
+    purchases,
+    lifetime_value: purchases.reduce((sum, purchase) => sum + purchase.total, 0),
+    last_visit: purchases[0]?.transaction_date || null,
+    outstanding_balance: purchases.reduce((sum, purchase) => sum + purchase.due, 0),
+    includes_server: includesServer,
+  };
+};
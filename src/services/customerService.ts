@@ -0,0 +1,277 @@
+/**
+ * Customers added or edited at the till. A new customer is stored straight away under a
+ * temporary negative ID, so it can be used on sales while offline, and queued for upload.
+ * When the server returns the customer's real ID, the stored customer and every unsynced
+ * sale that refers to it are rewritten before those sales are sent. Edits are stored
+ * locally and queued the same way.
+ */
+import type { Customer } from '@/context/CustomerContext';
+import {
+  getContact,
+  getContacts,
+  getLocalItemAsJson,
+  getTemporaryContacts,
+  replaceTemporaryContact,
+  saveContact,
+  saveContacts,
+  setLocalItem,
+} from '@/lib/storage';
+import { createContact, fetchContacts, updateContact } from '@/services/api';
+import {
+  claimOperation,
+  deleteOperation,
+  getOperation,
+  queueOperation,
+  updateOperationStatus,
+} from '@/services/syncQueue';
+import { emitSyncEvent } from '@/services/sync/events';
+
+export interface NewCustomerData {
+  first_name: string;
+  last_name?: string;
+  mobile: string;
+  email?: string;
+  tax_number?: string;
+  address_line_1?: string;
+  city?: string;
+}
+
+// Contact fields that can be edited at the till
+export const EDITABLE_CUSTOMER_FIELDS = [
+  'first_name',
+  'last_name',
+  'mobile',
+  'email',
+  'tax_number',
+  'address_line_1',
+  'address_line_2',
+  'city',
+  'state',
+  'country',
+  'zip_code',
+] as const;
+
+export type CustomerChanges = Partial<Record<typeof EDITABLE_CUSTOMER_FIELDS[number], string>>;
+
+// An upload still marked processing after this long was interrupted
+const PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
+const RECONCILE_PAGE_SIZE = 50;
+
+// Temporary ID -> server ID, kept so anything still holding a temporary ID can be resolved
+const CUSTOMER_ID_MAP_KEY = 'customer_id_map';
+
+export const isTemporaryContactId = (id: number | null | undefined): id is number => {
+  return typeof id === 'number' && id < 0;
+};
+
+export const getCustomerOperationId = (temporaryId: number): string => `customer_${temporaryId}`;
+
+export const getCustomerUpdateOperationId = (contactId: number): string => `customer_update_${contactId}`;
+
+const getCustomerIdMap = (): Record<string, number> => {
+  return getLocalItemAsJson<Record<string, number>>(CUSTOMER_ID_MAP_KEY) || {};
+};
+
+/**
+ * The server ID for a contact ID
+ * @returns null for a customer that hasn't been uploaded yet
+ */
+export const resolveContactId = (id: number | null | undefined): number | null => {
+  if (!isTemporaryContactId(id)) {
+    return id ?? null;
+  }
+  return getCustomerIdMap()[id] ?? null;
+};
+
+const getContactName = (customer: { first_name?: string; last_name?: string; name?: string }): string => {
+  return [customer.first_name, customer.last_name].filter(Boolean).join(' ') || customer.name || '';
+};
+
+// The contact API returns the saved contact, wrapped in data by some versions
+const getContactFromResponse = (response: { id?: number; data?: { id?: number } }): Customer | null => {
+  const contact = response?.data?.id ? response.data : response;
+  return contact?.id ? contact as Customer : null;
+};
+
+/**
+ * Find a customer on the server from an earlier upload whose response was lost, e.g. to a
+ * timeout. Customers added at the till always have a mobile number, which is matched
+ * together with the name.
+ */
+const findUploadedContact = async (customer: Customer): Promise<Customer | null> => {
+  if (!customer.mobile) {
+    return null;
+  }
+  const response = await fetchContacts(1, RECONCILE_PAGE_SIZE, 'customer', { mobile_num: customer.mobile });
+  const contacts: Customer[] = response?.data || [];
+  return contacts.find(contact =>
+    contact.mobile === customer.mobile && getContactName(contact) === getContactName(customer)
+  ) || null;
+};
+
+/**
+ * Upload a customer added at the till and swap its temporary ID for the server's
+ * @returns The server ID, or null if the customer couldn't be uploaded
+ */
+export const uploadCustomer = async (temporaryId: number): Promise<number | null> => {
+  const customer: Customer | undefined = await getContact(temporaryId);
+  if (!customer) {
+    // Already replaced by its uploaded copy
+    return resolveContactId(temporaryId);
+  }
+
+  const operationId = getCustomerOperationId(temporaryId);
+  const operation = await claimOperation('customer', { temporary_id: temporaryId }, operationId, PROCESSING_TIMEOUT_MS);
+  // Being uploaded right now, e.g. by a sync pass while the cashier added it
+  if (!operation) {
+    return null;
+  }
+
+  try {
+    const idMap = getCustomerIdMap();
+    let contact: Customer = { ...customer, id: idMap[temporaryId] };
+
+    // Only upload once - a failed rewrite is retried with the ID already received
+    if (!idMap[temporaryId]) {
+      // An earlier attempt may have created the customer without hearing back
+      const uploaded = operation.attempts > 0 ? await findUploadedContact(customer) : null;
+      const { id, name, ...fields } = customer;
+      const created = uploaded || getContactFromResponse(await createContact({ ...fields, type: 'customer' }));
+      if (!created) {
+        throw new Error('The server did not return the new customer');
+      }
+      contact = { ...customer, ...created };
+      setLocalItem(CUSTOMER_ID_MAP_KEY, JSON.stringify({ ...idMap, [temporaryId]: created.id }));
+    }
+
+    await replaceTemporaryContact(temporaryId, contact);
+    // Open orders still hold the temporary customer
+    emitSyncEvent({ type: 'contact_replaced', temporary_id: temporaryId, contact });
+    await updateOperationStatus(operationId, 'completed');
+    return contact.id;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error uploading customer';
+    await updateOperationStatus(operationId, 'failed', message);
+    console.error(`Error uploading customer ${temporaryId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Add a customer at the till. It is uploaded right away when online, otherwise by the next sync.
+ */
+export const createCustomer = async (data: NewCustomerData): Promise<Customer> => {
+  const customer: Customer = {
+    ...data,
+    id: -Date.now(),
+    name: getContactName(data),
+    type: 'customer',
+    contact_status: 'active',
+  };
+
+  await saveContacts([customer]);
+  await queueOperation('customer', { temporary_id: customer.id }, getCustomerOperationId(customer.id));
+
+  if (navigator.onLine) {
+    const serverId = await uploadCustomer(customer.id);
+    if (serverId) {
+      return (await getContact(serverId)) || { ...customer, id: serverId };
+    }
+  }
+  return customer;
+};
+
+/**
+ * Send a customer's edits made at the till
+ * @returns Whether the server has the customer's latest details
+ */
+export const sendCustomerUpdate = async (contactId: number): Promise<boolean> => {
+  const operationId = getCustomerUpdateOperationId(contactId);
+  const customer: Customer | undefined = await getContact(contactId);
+  if (!customer?.local_changes_at) {
+    await updateOperationStatus(operationId, 'completed');
+    return true;
+  }
+
+  await updateOperationStatus(operationId, 'processing');
+
+  try {
+    const fields = Object.fromEntries(EDITABLE_CUSTOMER_FIELDS.map(field => [field, customer[field] ?? null]));
+    const response = await updateContact(contactId, { ...fields, type: customer.type || 'customer' });
+
+    // Edited again while this was being sent - the next sync sends the newer details
+    const latest: Customer | undefined = await getContact(contactId);
+    if (latest && latest.local_changes_at !== customer.local_changes_at) {
+      await updateOperationStatus(operationId, 'pending');
+      return false;
+    }
+
+    const { local_changes_at, ...saved } = customer;
+    await saveContact({ ...saved, ...(getContactFromResponse(response) || {}), id: contactId });
+    await updateOperationStatus(operationId, 'completed');
+    console.log(`Updated customer ${contactId}`);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error updating customer';
+    await updateOperationStatus(operationId, 'failed', message);
+    console.error(`Error updating customer ${contactId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Edit a customer's contact details. The change is kept locally straight away and sent
+ * now when online, otherwise by the next sync.
+ */
+export const updateCustomer = async (customer: Customer, changes: CustomerChanges): Promise<Customer> => {
+  const updated: Customer = { ...customer, ...changes };
+  updated.name = getContactName(updated);
+
+  // A customer that hasn't been uploaded yet goes up with its latest details
+  if (isTemporaryContactId(customer.id)) {
+    await saveContact(updated);
+    return updated;
+  }
+
+  updated.local_changes_at = new Date().toISOString();
+  await saveContact(updated);
+
+  // One operation per customer - it always sends the latest stored details
+  const operationId = getCustomerUpdateOperationId(customer.id);
+  if ((await getOperation(operationId))?.status === 'completed') {
+    await deleteOperation(operationId);
+  }
+  await queueOperation('customer', { contact_id: customer.id }, operationId);
+
+  if (navigator.onLine) {
+    await sendCustomerUpdate(customer.id);
+  }
+  return (await getContact(customer.id)) || updated;
+};
+
+/**
+ * Upload every customer still waiting for a server ID, then every edit waiting to be sent
+ * @returns The number of customers sent
+ */
+export const uploadPendingCustomers = async (): Promise<number> => {
+  const pending: Customer[] = await getTemporaryContacts();
+  let uploaded = 0;
+  for (const customer of pending) {
+    if (await uploadCustomer(customer.id)) {
+      uploaded++;
+    }
+  }
+
+  // Edits are found from the customers themselves, so an update that failed too often
+  // for the queue's retries is still sent - otherwise a download could overwrite it
+  const edited = (await getContacts() as Customer[])
+    .filter(customer => customer.local_changes_at && !isTemporaryContactId(customer.id));
+  for (const customer of edited) {
+    const operationId = getCustomerUpdateOperationId(customer.id);
+    await queueOperation('customer', { contact_id: customer.id }, operationId);
+    if (await sendCustomerUpdate(customer.id)) {
+      uploaded++;
+    }
+  }
+  return uploaded;
+};
@@ -0,0 +1,149 @@
+/**
+ * Held (parked) carts. A held cart is stored locally with everything needed to
+ * resume it, and can optionally be mirrored to the ERP as a suspended sell.
+ */
+import axios from 'axios';
+import { CartState } from '@/context/CartContext';
+import { Customer } from '@/context/CustomerContext';
+import { saveHeldCart, getHeldCarts, deleteHeldCart } from '@/lib/storage';
+import { createSale, deleteSale } from '@/services/api';
+import { resolveContactId } from '@/services/customerService';
+import { buildSaleProducts, getCreatedTransactionId } from '@/utils/saleUtils';
+import { calculateCartTotals } from '@/utils/cartUtils';
+import { getOperationsByStatus, queueOperation, updateOperationStatus } from '@/services/syncQueue';
+
+export interface HeldCart {
+  id?: number;
+  label: string;
+  cart: CartState;
+  customer: Customer | null;
+  held_at?: string;
+  server_transaction_id?: number | null;
+}
+
+/**
+ * Push a held cart to the server as a suspended sell
+ * @returns The server transaction ID, or null if it could not be created
+ */
+const pushSuspendedSale = async (heldCart: HeldCart): Promise<number | null> => {
+  const { cart, customer } = heldCart;
+  const totals = calculateCartTotals(cart);
+
+  const result = await createSale({
+    location_id: cart.location_id,
+    // A customer added at the till may not have a server ID yet
+    contact_id: resolveContactId(customer?.id),
+    transaction_date: new Date().toISOString(),
+    status: 'draft',
+    is_suspended: 1,
+    products: buildSaleProducts(cart.items),
+    payment: [],
+    discount_amount: cart.discount,
+    discount_type: cart.discount_type,
+    tax_rate_id: cart.tax_rate_id,
+    tax_amount: totals.order_tax,
+    sale_note: cart.note || undefined,
+    staff_note: heldCart.label,
+  });
+
+  if (!result.success) {
+    console.error('Failed to push held cart to server:', result.error);
+    return null;
+  }
+
+  return getCreatedTransactionId(result.data);
+};
+
+/**
+ * Park a cart locally and, when requested and online, on the server too
+ */
+export const holdCart = async (heldCart: HeldCart, pushToServer = false): Promise<HeldCart> => {
+  const record: HeldCart = {
+    ...heldCart,
+    held_at: new Date().toISOString(),
+    server_transaction_id: null,
+  };
+
+  if (pushToServer && navigator.onLine && record.cart.location_id) {
+    try {
+      record.server_transaction_id = await pushSuspendedSale(record);
+    } catch (error) {
+      // The local copy is what matters at the till, so keep going
+      console.error('Error pushing held cart to server:', error);
+    }
+  }
+
+  record.id = await saveHeldCart(record);
+  return record;
+};
+
+/**
+ * List held carts, newest first
+ */
+export const listHeldCarts = async (): Promise<HeldCart[]> => {
+  return getHeldCarts();
+};
+
+const getSuspendedSaleDeleteOperationId = (transactionId: number): string => `suspended_sale_delete_${transactionId}`;
+
+/**
+ * Delete a held cart's suspended sell on the server
+ * @returns Whether it is gone from the server
+ */
+export const deleteSuspendedSale = async (transactionId: number): Promise<boolean> => {
+  const operationId = getSuspendedSaleDeleteOperationId(transactionId);
+  await updateOperationStatus(operationId, 'processing');
+
+  try {
+    await deleteSale(transactionId);
+  } catch (error) {
+    // Already deleted on the server, e.g. by an earlier attempt that timed out
+    if (!(axios.isAxiosError(error) && error.response?.status === 404)) {
+      const message = error instanceof Error ? error.message : 'Error deleting suspended sell';
+      await updateOperationStatus(operationId, 'failed', message);
+      console.error('Error deleting suspended sell on server:', error);
+      return false;
+    }
+  }
+
+  await updateOperationStatus(operationId, 'completed');
+  return true;
+};
+
+/**
+ * Delete the suspended sells of held carts removed while offline
+ * @returns The number deleted
+ */
+export const deleteQueuedSuspendedSales = async (): Promise<number> => {
+  const pending = (await getOperationsByStatus('pending'))
+    .filter(operation => operation.type === 'suspended_sale_delete');
+  let deleted = 0;
+  for (const operation of pending) {
+    if (await deleteSuspendedSale(operation.data.transaction_id)) {
+      deleted++;
+    }
+  }
+  return deleted;
+};
+
+/**
+ * Remove a held cart. Its suspended sell on the server, if there is one, is deleted now
+ * when online, otherwise by the next sync.
+ */
+export const removeHeldCart = async (heldCart: HeldCart): Promise<void> => {
+  const transactionId = heldCart.server_transaction_id;
+  if (transactionId) {
+    await queueOperation(
+      'suspended_sale_delete',
+      { transaction_id: transactionId },
+      getSuspendedSaleDeleteOperationId(transactionId)
+    );
+    if (navigator.onLine) {
+      await deleteSuspendedSale(transactionId);
+    }
+  }
+
+  if (heldCart.id) {
+    await deleteHeldCart(heldCart.id);
+  }
+};
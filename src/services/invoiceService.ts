@@ -0,0 +1,81 @@
+/**
+ * Invoice numbers for completed sales. Numbers come from a sequence kept in IndexedDB
+ * for this device and location, so they work offline and never collide between tills.
+ */
+import { formatInvoiceNumber, getInvoiceSettings } from '@/lib/invoiceSettings';
+import { getInvoiceAudit, getInvoiceSequence, saveSaleWithInvoiceNumber } from '@/lib/storage';
+import { SaleData } from '@/services/api';
+
+export interface InvoiceSequenceStatus {
+  sequence_key: string;
+  last_number: number;
+  last_invoice_no: string | null;
+  issued: number;
+  // Numbers up to last_number with no audit entry
+  missing: number[];
+  // Numbers passed over because another sequence had already issued the same invoice number
+  skipped: number[];
+}
+
+export const getInvoiceSequenceKey = (locationId: number): string => {
+  return `${getInvoiceSettings().device_code}:${locationId}`;
+};
+
+/**
+ * Save a completed sale under the next invoice number for its location
+ */
+export const saveSaleWithInvoice = async (sale: SaleData & { is_synced?: number }) => {
+  const settings = getInvoiceSettings();
+  const issuedAt = new Date();
+
+  const save = () => saveSaleWithInvoiceNumber(
+    sale,
+    getInvoiceSequenceKey(sale.location_id),
+    sale.location_id,
+    number => formatInvoiceNumber(number, sale.location_id, settings, issuedAt)
+  );
+
+  try {
+    return await save();
+  } catch (error) {
+    // Numbers already issued are skipped inside the transaction, so a clash here means
+    // another tab issued the same number first - the retry reads the moved sequence
+    if (error instanceof DOMException && error.name === 'ConstraintError') {
+      delete sale.invoice_no;
+      return save();
+    }
+    throw error;
+  }
+};
+
+/**
+ * Compare the sequence with the audit to confirm every issued number is accounted for
+ */
+export const checkInvoiceSequence = async (locationId: number): Promise<InvoiceSequenceStatus> => {
+  const sequenceKey = getInvoiceSequenceKey(locationId);
+  const [sequence, audit] = await Promise.all([
+    getInvoiceSequence(sequenceKey),
+    getInvoiceAudit(sequenceKey),
+  ]);
+
+  const lastNumber = sequence?.last_number || 0;
+  const issued = new Set(audit.map(entry => entry.number));
+  const skipped = sequence?.skipped || [];
+  const missing: number[] = [];
+  for (let number = 1; number <= lastNumber; number++) {
+    if (!issued.has(number) && !skipped.includes(number)) {
+      missing.push(number);
+    }
+  }
+
+  const last = audit.find(entry => entry.number === lastNumber);
+
+  return {
+    sequence_key: sequenceKey,
+    last_number: lastNumber,
+    last_invoice_no: last?.invoice_no || null,
+    issued: audit.length,
+    missing,
+    skipped,
+  };
+};
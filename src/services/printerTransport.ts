@@ -0,0 +1,238 @@
+/**
+ * Transports that send raw ESC/POS bytes to a receipt printer. Each transport is
+ * connected once and can then be written to for every receipt.
+ */
+
+export interface PrinterTransport {
+  name: string;
+  connect(): Promise<void>;
+  write(data: Uint8Array): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+// Minimal WebUSB and Web Serial typings - neither is in the DOM lib yet
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+}
+
+interface UsbDevice {
+  opened: boolean;
+  configuration: { interfaces: UsbInterface[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(value: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+
+interface UsbInterface {
+  interfaceNumber: number;
+  alternate: { endpoints: UsbEndpoint[] };
+}
+
+interface SerialPort {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface PrinterNavigator {
+  usb?: {
+    getDevices(): Promise<UsbDevice[]>;
+    requestDevice(options: { filters: object[] }): Promise<UsbDevice>;
+  };
+  serial?: {
+    getPorts(): Promise<SerialPort[]>;
+    requestPort(): Promise<SerialPort>;
+  };
+}
+
+const printerNavigator = navigator as Navigator & PrinterNavigator;
+
+export const isWebUsbSupported = (): boolean => !!printerNavigator.usb;
+
+export const isWebSerialSupported = (): boolean => !!printerNavigator.serial;
+
+/**
+ * Printer on USB via WebUSB. Uses a printer this site was already given access to,
+ * otherwise asks the user to pick one - so the first connect must come from a click.
+ */
+export const createWebUsbTransport = (): PrinterTransport => {
+  let device: UsbDevice | null = null;
+  let endpointNumber = 1;
+
+  return {
+    name: 'USB',
+
+    async connect() {
+      if (!printerNavigator.usb) {
+        throw new Error('WebUSB is not supported in this browser');
+      }
+      if (device?.opened) {
+        return;
+      }
+
+      const [known] = await printerNavigator.usb.getDevices();
+      device = known || await printerNavigator.usb.requestDevice({ filters: [] });
+      await device.open();
+      if (!device.configuration) {
+        await device.selectConfiguration(1);
+      }
+
+      // The first interface with an OUT endpoint is the printer
+      for (const usbInterface of device.configuration?.interfaces || []) {
+        const endpoint = usbInterface.alternate.endpoints.find(candidate => candidate.direction === 'out');
+        if (endpoint) {
+          await device.claimInterface(usbInterface.interfaceNumber);
+          endpointNumber = endpoint.endpointNumber;
+          return;
+        }
+      }
+      throw new Error('USB device is not a printer');
+    },
+
+    async write(data) {
+      if (!device?.opened) {
+        throw new Error('USB printer is not connected');
+      }
+      await device.transferOut(endpointNumber, data);
+    },
+
+    async disconnect() {
+      if (device?.opened) {
+        await device.close();
+      }
+      device = null;
+    },
+  };
+};
+
+/**
+ * Printer on a serial or Bluetooth serial port via Web Serial
+ */
+export const createWebSerialTransport = (baudRate = 9600): PrinterTransport => {
+  let port: SerialPort | null = null;
+
+  return {
+    name: 'Serial',
+
+    async connect() {
+      if (!printerNavigator.serial) {
+        throw new Error('Web Serial is not supported in this browser');
+      }
+      if (port) {
+        return;
+      }
+
+      const [known] = await printerNavigator.serial.getPorts();
+      const selected = known || await printerNavigator.serial.requestPort();
+      await selected.open({ baudRate });
+      port = selected;
+    },
+
+    async write(data) {
+      if (!port?.writable) {
+        throw new Error('Serial printer is not connected');
+      }
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(data);
+      } finally {
+        writer.releaseLock();
+      }
+    },
+
+    async disconnect() {
+      if (port) {
+        await port.close();
+      }
+      port = null;
+    },
+  };
+};
+
+/**
+ * Network printer reached through a local bridge service, which forwards the
+ * posted bytes to the printer's raw port (usually 9100)
+ */
+export const createNetworkBridgeTransport = (url: string): PrinterTransport => {
+  return {
+    name: 'Network',
+
+    async connect() {
+      if (!url) {
+        throw new Error('Printer bridge URL is not set');
+      }
+    },
+
+    async write(data) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: data,
+      });
+      if (!response.ok) {
+        throw new Error(`Printer bridge responded with ${response.status}`);
+      }
+    },
+
+    async disconnect() {},
+  };
+};
+
+/**
+ * Collects everything written in memory - for tests and debugging layouts
+ */
+export const createMemoryTransport = (): PrinterTransport & { getBytes(): Uint8Array; clear(): void } => {
+  let chunks: Uint8Array[] = [];
+
+  return {
+    name: 'Memory',
+
+    async connect() {},
+
+    async write(data) {
+      chunks.push(data.slice());
+    },
+
+    async disconnect() {},
+
+    getBytes() {
+      const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+      let offset = 0;
+      chunks.forEach(chunk => {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+      });
+      return bytes;
+    },
+
+    clear() {
+      chunks = [];
+    },
+  };
+};
+
+/**
+ * Downloads each write as a .bin file, which can be sent to a printer with
+ * e.g. `cat receipt.bin > /dev/usb/lp0`
+ */
+export const createFileTransport = (filename = 'receipt.bin'): PrinterTransport => {
+  return {
+    name: 'File',
+
+    async connect() {},
+
+    async write(data) {
+      const url = URL.createObjectURL(new Blob([data], { type: 'application/octet-stream' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+
+    async disconnect() {},
+  };
+};
@@ -0,0 +1,261 @@
+/**
+ * Quotations and draft sales. Both are stored as sales with status 'draft' (quotations
+ * also carry is_quotation), so they sync through syncSale like any other sale. The
+ * cart they were made from is kept locally so they can be reopened and completed in the POS.
+ * Once the sale a quotation was completed as is on the server, the quotation is deleted there.
+ */
+import axios from 'axios';
+import { CartState } from '@/context/CartContext';
+import { Customer } from '@/context/CustomerContext';
+import { BusinessSettings } from '@/lib/businessSettings';
+import { getSale, saveSale, updateSale } from '@/lib/storage';
+import { deleteSale, SaleData } from '@/services/api';
+import { syncSale, withdrawSale } from '@/services/saleSyncService';
+import { getOperationsByStatus, queueOperation, updateOperationStatus } from '@/services/syncQueue';
+import { calculateCartTotals } from '@/utils/cartUtils';
+import { formatCurrencySync } from '@/utils/formatting';
+import { escapeHtml } from '@/utils/printUtils';
+import { buildSaleProducts, SaleType, StoredSale } from '@/utils/saleUtils';
+import { v4 as uuidv4 } from 'uuid';
+
+export type QuotationType = Exclude<SaleType, 'final'>;
+
+// How long a new quotation is valid for by default
+export const DEFAULT_QUOTATION_VALID_DAYS = 14;
+
+export interface StoredQuotation extends StoredSale {
+  cart: CartState;
+  customer: Customer | null;
+  // Last day the quotation is valid, as YYYY-MM-DD
+  expiry_date?: string | null;
+  converted_sale_local_id?: number | null;
+}
+
+interface SaveQuotationOptions {
+  type: QuotationType;
+  cart: CartState;
+  customer: Customer | null;
+  contactId: number | null;
+  expiryDate?: string | null;
+  precision?: number;
+}
+
+/**
+ * Save a cart as a quotation or draft. It is sent to the server straight away when
+ * online, and otherwise left for the next sync.
+ */
+export const saveQuotation = async ({
+  type,
+  cart,
+  customer,
+  contactId,
+  expiryDate = null,
+  precision = 2,
+}: SaveQuotationOptions): Promise<StoredQuotation> => {
+  const totals = calculateCartTotals(cart, precision);
+
+  const saleData: SaleData = {
+    location_id: cart.location_id,
+    contact_id: contactId,
+    transaction_date: new Date().toISOString(),
+    status: 'draft',
+    is_quotation: type === 'quotation' ? 1 : undefined,
+    products: buildSaleProducts(cart.items),
+    payment: [],
+    discount_amount: cart.discount,
+    discount_type: cart.discount_type,
+    tax_rate_id: cart.tax_rate_id,
+    tax_amount: totals.order_tax,
+    sale_note: cart.note || undefined,
+    final_total: totals.total,
+    tax_breakdown: totals.breakdown,
+    client_uuid: uuidv4(),
+  };
+
+  const record = {
+    ...saleData,
+    cart: { ...cart, quotation_local_id: null },
+    customer,
+    expiry_date: type === 'quotation' ? expiryDate : null,
+    converted_sale_local_id: null,
+    is_synced: 0,
+    transaction_id: null as number | null,
+  };
+
+  const localId = await saveSale(record);
+  const saved = { ...record, local_id: localId };
+
+  // If it can't be sent now it stays stored, and the next sync retries it
+  if (navigator.onLine) {
+    const result = await syncSale(saved);
+    if (result === 'synced' || result === 'reconciled') {
+      const synced = await getSale(localId);
+      return { ...saved, is_synced: 1, transaction_id: synced?.transaction_id ?? null };
+    }
+  }
+  return saved;
+};
+
+const getQuotationCloseOperationId = (localId: number): string => `quotation_close_${localId}`;
+
+/**
+ * Whether a quotation or draft has already been completed as a sale
+ */
+export const isQuotationConverted = async (localId: number): Promise<boolean> => {
+  const quotation: StoredQuotation | undefined = await getSale(localId);
+  return !!quotation?.converted_sale_local_id;
+};
+
+/**
+ * Close a converted quotation or draft on the server, once the sale it was completed as
+ * is there. One that never reached the server is withdrawn so it is never sent.
+ * @returns Whether it is closed - false while its sale hasn't synced or if it failed
+ */
+export const closeConvertedQuotation = async (localId: number): Promise<boolean> => {
+  const operationId = getQuotationCloseOperationId(localId);
+  const quotation: StoredQuotation | undefined = await getSale(localId);
+  const sale: StoredSale | undefined = quotation?.converted_sale_local_id
+    ? await getSale(quotation.converted_sale_local_id)
+    : undefined;
+  if (!quotation || !sale) {
+    await updateOperationStatus(operationId, 'completed');
+    return true;
+  }
+  // The quotation stays open until the sale replacing it is on the server
+  if (!sale.is_synced) {
+    return false;
+  }
+
+  await updateOperationStatus(operationId, 'processing');
+  try {
+    const transactionId = quotation.is_synced ? quotation.transaction_id : await withdrawSale(quotation);
+    if (transactionId) {
+      try {
+        await deleteSale(transactionId);
+      } catch (error) {
+        // Already deleted on the server, e.g. by an earlier attempt that timed out
+        if (!(axios.isAxiosError(error) && error.response?.status === 404)) {
+          throw error;
+        }
+      }
+    }
+    await updateOperationStatus(operationId, 'completed');
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error closing quotation';
+    await updateOperationStatus(operationId, 'failed', message);
+    console.error(`Error closing quotation ID ${localId} on server:`, error);
+    return false;
+  }
+};
+
+/**
+ * Close the converted quotations and drafts still open on the server
+ * @returns The number closed
+ */
+export const closeQueuedQuotations = async (): Promise<number> => {
+  const pending = (await getOperationsByStatus('pending'))
+    .filter(operation => operation.type === 'quotation_close');
+  let closed = 0;
+  for (const operation of pending) {
+    if (await closeConvertedQuotation(operation.data.local_id)) {
+      closed++;
+    }
+  }
+  return closed;
+};
+
+/**
+ * Link a quotation or draft to the sale it was completed as, and queue closing it on
+ * the server. That happens now if the sale is already there.
+ */
+export const markQuotationConverted = async (localId: number, saleLocalId: number): Promise<void> => {
+  const quotation: StoredQuotation | undefined = await getSale(localId);
+  if (!quotation) {
+    return;
+  }
+
+  const converted: StoredQuotation = { ...quotation, converted_sale_local_id: saleLocalId };
+  await updateSale(converted);
+  await queueOperation('quotation_close', { local_id: localId }, getQuotationCloseOperationId(localId));
+  if (navigator.onLine) {
+    await closeConvertedQuotation(localId);
+  }
+};
+
+// A date as YYYY-MM-DD in local time, the format of a date input
+const toDateValue = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Default expiry date for a new quotation, as YYYY-MM-DD
+ */
+export const getDefaultExpiryDate = (): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + DEFAULT_QUOTATION_VALID_DAYS);
+  return toDateValue(date);
+};
+
+export const isQuotationExpired = (quotation: Pick<StoredQuotation, 'expiry_date'>): boolean => {
+  return !!quotation.expiry_date && quotation.expiry_date < toDateValue(new Date());
+};
+
+/**
+ * Printable HTML document for a quotation or draft
+ */
+export const buildQuotationHtml = (quotation: StoredQuotation, settings: BusinessSettings | null): string => {
+  const precision = settings?.currency_precision ?? 2;
+  const totals = calculateCartTotals(quotation.cart, precision);
+  const formatPrice = (amount: number) => settings ? formatCurrencySync(amount, settings) : amount.toFixed(precision);
+  const title = quotation.is_quotation ? 'Quotation' : 'Draft';
+
+  const rows = quotation.cart.items.map(item => `
+      <tr>
+        <td>${escapeHtml(item.name)}${item.note ? `<div class="note">${escapeHtml(item.note)}</div>` : ''}</td>
+        <td class="num">${escapeHtml(item.quantity)}</td>
+        <td class="num">${escapeHtml(formatPrice(item.quantity ? item.total / item.quantity : 0))}</td>
+        <td class="num">${escapeHtml(formatPrice(item.total))}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${title} #${quotation.local_id}</title>
+  <style>
+    body { font-family: sans-serif; font-size: 13px; margin: 24px; color: #111; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { padding: 6px 4px; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }
+    .num { text-align: right; }
+    .note { font-size: 11px; color: #666; }
+    .totals td { border: none; }
+    .grand td { font-weight: bold; font-size: 15px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(settings?.name || '')}</h1>
+  <div><strong>${title} #${quotation.local_id}</strong></div>
+  <div>Date: ${escapeHtml(new Date(quotation.transaction_date).toLocaleDateString())}</div>
+  ${quotation.expiry_date ? `<div>Valid until: ${escapeHtml(new Date(`${quotation.expiry_date}T00:00:00`).toLocaleDateString())}</div>` : ''}
+  <div>Customer: ${escapeHtml(quotation.customer?.name || 'Walk-in Customer')}</div>
+  <table>
+    <thead>
+      <tr><th>Item</th><th class="num">Qty</th><th class="num">Price</th><th class="num">Total</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <table>
+    <tr class="totals"><td>Subtotal</td><td class="num">${escapeHtml(formatPrice(totals.subtotal))}</td></tr>
+    ${totals.discount ? `<tr class="totals"><td>Discount</td><td class="num">-${escapeHtml(formatPrice(totals.discount))}</td></tr>` : ''}
+    ${totals.order_tax ? `<tr class="totals"><td>${escapeHtml(quotation.cart.tax_name || 'Tax')}</td><td class="num">${escapeHtml(formatPrice(totals.order_tax))}</td></tr>` : ''}
+    <tr class="totals grand"><td>Total</td><td class="num">${escapeHtml(formatPrice(totals.total))}</td></tr>
+  </table>
+  ${quotation.cart.note ? `<p>${escapeHtml(quotation.cart.note)}</p>` : ''}
+</body>
+</html>`;
+};
@@ -0,0 +1,139 @@
+/**
+ * Receipts for completed sales. The sale is rendered with this till's receipt
+ * settings and printed through the browser's print dialog, or sent as raw
+ * ESC/POS bytes when a thermal printer is configured.
+ */
+import { BusinessSettings } from '@/lib/businessSettings';
+import { getReceiptSettings, ReceiptPaperSize, ReceiptPrinterType, ReceiptSettings } from '@/lib/receiptSettings';
+import { getLocationById } from '@/services/locationService';
+import {
+  createFileTransport,
+  createNetworkBridgeTransport,
+  createWebSerialTransport,
+  createWebUsbTransport,
+  PrinterTransport,
+} from '@/services/printerTransport';
+import { buildEscPosReceipt, getPaperDots } from '@/utils/escposReceipt';
+import { loadImageRaster } from '@/utils/escposImage';
+import { printHtml } from '@/utils/printUtils';
+import { buildReceiptData, renderReceiptHtml } from '@/utils/receiptUtils';
+import { StoredSale } from '@/utils/saleUtils';
+
+// The connected printer is kept between receipts so USB and serial ports stay open
+let activeTransport: { key: string; transport: PrinterTransport } | null = null;
+
+const getTransportKey = (settings: ReceiptSettings) => {
+  return `${settings.printer_type}:${settings.bridge_url}:${settings.serial_baud_rate}`;
+};
+
+const createTransport = (settings: ReceiptSettings): PrinterTransport => {
+  switch (settings.printer_type) {
+    case 'usb':
+      return createWebUsbTransport();
+    case 'serial':
+      return createWebSerialTransport(settings.serial_baud_rate);
+    case 'network':
+      return createNetworkBridgeTransport(settings.bridge_url);
+    default:
+      return createFileTransport();
+  }
+};
+
+/**
+ * The printer for the current settings, connected and ready to write to
+ */
+export const getPrinterTransport = async (): Promise<PrinterTransport> => {
+  const receiptSettings = getReceiptSettings();
+  const key = getTransportKey(receiptSettings);
+
+  if (activeTransport?.key !== key) {
+    await disconnectPrinter();
+    activeTransport = { key, transport: createTransport(receiptSettings) };
+  }
+
+  try {
+    await activeTransport.transport.connect();
+  } catch (error) {
+    activeTransport = null;
+    throw error;
+  }
+  return activeTransport.transport;
+};
+
+/**
+ * Close the connection to the printer, e.g. when the printer settings change
+ */
+export const disconnectPrinter = async (): Promise<void> => {
+  if (activeTransport) {
+    const { transport } = activeTransport;
+    activeTransport = null;
+    await transport.disconnect();
+  }
+};
+
+export const isRawPrinter = (printerType: ReceiptPrinterType): boolean => printerType !== 'browser';
+
+/**
+ * Receipt HTML for a sale, optionally on a different paper size than the configured one
+ */
+export const getSaleReceiptHtml = async (
+  sale: StoredSale,
+  settings: BusinessSettings | null,
+  paperSize?: ReceiptPaperSize
+): Promise<string> => {
+  const receiptSettings = getReceiptSettings();
+  const location = await getLocationById(sale.location_id);
+
+  return renderReceiptHtml(
+    buildReceiptData(sale, settings, location),
+    { ...receiptSettings, paper_size: paperSize || receiptSettings.paper_size },
+    settings
+  );
+};
+
+/**
+ * Receipt for a sale as ESC/POS bytes
+ */
+export const getSaleReceiptEscPos = async (
+  sale: StoredSale,
+  settings: BusinessSettings | null,
+  paperSize?: ReceiptPaperSize
+): Promise<Uint8Array> => {
+  const receiptSettings = getReceiptSettings();
+  const options = { ...receiptSettings, paper_size: paperSize || receiptSettings.paper_size };
+  const location = await getLocationById(sale.location_id);
+
+  // A logo that fails to load shouldn't stop the receipt printing
+  let logo;
+  if (receiptSettings.logo_url) {
+    try {
+      logo = await loadImageRaster(receiptSettings.logo_url, getPaperDots(options.paper_size));
+    } catch (error) {
+      console.error('Error loading receipt logo:', error);
+    }
+  }
+
+  return buildEscPosReceipt(buildReceiptData(sale, settings, location), options, settings, {
+    logo,
+    openDrawer: receiptSettings.open_cash_drawer,
+    arabicAsImage: receiptSettings.arabic_as_image,
+  });
+};
+
+/**
+ * Print a sale's receipt straight away on the configured printer
+ */
+export const printSaleReceipt = async (
+  sale: StoredSale,
+  settings: BusinessSettings | null,
+  paperSize?: ReceiptPaperSize
+): Promise<void> => {
+  if (!isRawPrinter(getReceiptSettings().printer_type)) {
+    printHtml(await getSaleReceiptHtml(sale, settings, paperSize));
+    return;
+  }
+
+  const data = await getSaleReceiptEscPos(sale, settings, paperSize);
+  const transport = await getPrinterTransport();
+  await transport.write(data);
+};
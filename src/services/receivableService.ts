@@ -0,0 +1,359 @@
+/**
+ * What customers owe. Unpaid invoices on the server are downloaded by the sync engine,
+ * so balances and credit limits work offline. Sales and payments made at this till since
+ * that download are added on top, until the next download includes them.
+ */
+import type { Customer } from '@/context/CustomerContext';
+import {
+  getCustomerPayment,
+  getCustomerPaymentsForContact,
+  getReceivablesForContact,
+  getSalesForContact,
+  getUnSyncedCustomerPayments,
+  markCustomerPaymentAsSynced,
+  replaceReceivables,
+  saveCustomerPayment,
+} from '@/lib/storage';
+import { createContactPayment, fetchSales, SalePayment } from '@/services/api';
+import { isTemporaryContactId, uploadCustomer } from '@/services/customerService';
+import { getSyncTimestamps } from '@/services/sync/timestamps';
+import { claimOperation, queueOperation, updateOperationStatus } from '@/services/syncQueue';
+import { getRemainingBalance, getTenderedTotal, roundToPrecision } from '@/utils/paymentUtils';
+import { getSaleType, StoredSale } from '@/utils/saleUtils';
+import { v4 as uuidv4 } from 'uuid';
+
+// A payment taken at the till against a customer's balance
+export interface CustomerPayment extends SalePayment {
+  local_id: number;
+  contact_id: number;
+  paid_on: string;
+  is_synced: number;
+  synced_at?: number;
+  // Sent with the payment so an attempt whose outcome is unknown can be found on the server
+  client_uuid?: string;
+}
+
+export interface OpenInvoice {
+  key: string;
+  invoice_no: string | null;
+  transaction_date: string;
+  total: number;
+  paid: number;
+  due: number;
+  // Made at this till and not synced yet
+  pending: boolean;
+}
+
+export interface LedgerEntry {
+  key: string;
+  date: string;
+  type: 'invoice' | 'payment';
+  reference: string;
+  debit: number;
+  credit: number;
+  // Owed after this entry
+  balance: number;
+  pending: boolean;
+}
+
+export interface CustomerLedger {
+  open_invoices: OpenInvoice[];
+  entries: LedgerEntry[];
+  balance: number;
+}
+
+export interface CreditStatus {
+  // null when the customer has no credit limit
+  limit: number | null;
+  balance: number;
+  available: number | null;
+}
+
+interface ServerSale {
+  id: number;
+  contact_id: number;
+  invoice_no?: string;
+  transaction_date: string;
+  final_total?: number | string;
+  payment_lines?: {
+    amount?: number | string;
+    method?: string;
+    paid_on?: string;
+    client_uuid?: string;
+  }[];
+}
+
+// The sell list's payment_status filter values for invoices with something left to pay
+const UNPAID_STATUSES = ['due', 'partial'];
+const RECEIVABLES_PAGE_SIZE = 200;
+const RECONCILE_PAGE_SIZE = 100;
+
+// A payment still marked processing after this long was interrupted
+const PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
+
+export const getCustomerPaymentOperationId = (localId: number): string => `customer_payment_${localId}`;
+
+const toServerDateTime = (date: string): string => date.replace('T', ' ').substring(0, 19);
+
+/**
+ * Download every unpaid and part-paid invoice from the server, replacing the cached ones
+ * @returns The number of open invoices
+ */
+export const downloadReceivables = async (): Promise<number> => {
+  const invoices = new Map<number, ServerSale>();
+
+  for (const paymentStatus of UNPAID_STATUSES) {
+    let page = 1;
+    let lastPage = 1;
+    do {
+      const response = await fetchSales(page, RECEIVABLES_PAGE_SIZE, { payment_status: paymentStatus });
+      for (const sale of (response?.data || []) as ServerSale[]) {
+        invoices.set(sale.id, sale);
+      }
+      lastPage = response?.meta?.last_page || 1;
+      page++;
+    } while (page <= lastPage);
+  }
+
+  const receivables = Array.from(invoices.values())
+    .map(sale => ({
+      id: sale.id,
+      contact_id: sale.contact_id,
+      invoice_no: sale.invoice_no || null,
+      transaction_date: sale.transaction_date,
+      final_total: Number(sale.final_total) || 0,
+      paid: (sale.payment_lines || []).reduce((sum, line) => sum + (Number(line.amount) || 0), 0),
+    }))
+    .filter(invoice => invoice.final_total - invoice.paid > 0);
+
+  await replaceReceivables(receivables);
+  return receivables.length;
+};
+
+// Anything synced before the last download is already in the cached invoices
+const isNewerThanDownload = (record: { is_synced?: number; synced_at?: number }, downloadedAt: number): boolean => {
+  return !record.is_synced || (record.synced_at || 0) > downloadedAt;
+};
+
+/**
+ * A customer's open invoices and the payments against them, oldest first, with a running balance
+ */
+export const getCustomerLedger = async (contactId: number): Promise<CustomerLedger> => {
+  const downloadedAt = getSyncTimestamps().receivables || 0;
+  const [cached, localSales, payments] = await Promise.all([
+    getReceivablesForContact(contactId),
+    getSalesForContact(contactId) as Promise<(StoredSale & { synced_at?: number })[]>,
+    getCustomerPaymentsForContact(contactId) as Promise<CustomerPayment[]>,
+  ]);
+  const cachedIds = new Set(cached.map(invoice => invoice.id));
+
+  const openInvoices: OpenInvoice[] = cached.map(invoice => ({
+    key: `server_${invoice.id}`,
+    invoice_no: invoice.invoice_no,
+    transaction_date: invoice.transaction_date,
+    total: invoice.final_total,
+    paid: invoice.paid,
+    due: roundToPrecision(invoice.final_total - invoice.paid),
+    pending: false,
+  }));
+
+  for (const sale of localSales) {
+    if (getSaleType(sale) !== 'final' || !isNewerThanDownload(sale, downloadedAt) ||
+        (sale.transaction_id && cachedIds.has(sale.transaction_id))) {
+      continue;
+    }
+    const total = Number(sale.final_total) || 0;
+    const due = getRemainingBalance(total, sale.payment || []);
+    if (due > 0) {
+      openInvoices.push({
+        key: `local_${sale.local_id}`,
+        invoice_no: sale.invoice_no || null,
+        transaction_date: sale.transaction_date,
+        total,
+        paid: Math.min(total, getTenderedTotal(sale.payment || [])),
+        due,
+        pending: !sale.is_synced,
+      });
+    }
+  }
+
+  openInvoices.sort((a, b) => new Date(a.transaction_date).getTime() - new Date(b.transaction_date).getTime());
+
+  const entries: Omit<LedgerEntry, 'balance'>[] = [];
+  for (const invoice of openInvoices) {
+    const reference = invoice.invoice_no || invoice.key;
+    entries.push({
+      key: `${invoice.key}_invoice`,
+      date: invoice.transaction_date,
+      type: 'invoice',
+      reference,
+      debit: invoice.total,
+      credit: 0,
+      pending: invoice.pending,
+    });
+    if (invoice.paid > 0) {
+      entries.push({
+        key: `${invoice.key}_paid`,
+        date: invoice.transaction_date,
+        type: 'payment',
+        reference: `Paid on ${reference}`,
+        debit: 0,
+        credit: invoice.paid,
+        pending: invoice.pending,
+      });
+    }
+  }
+  for (const payment of payments) {
+    if (isNewerThanDownload(payment, downloadedAt)) {
+      entries.push({
+        key: `payment_${payment.local_id}`,
+        date: payment.paid_on,
+        type: 'payment',
+        reference: payment.note || 'Payment',
+        debit: 0,
+        credit: payment.amount,
+        pending: !payment.is_synced,
+      });
+    }
+  }
+
+  // Sorting is stable, so each invoice stays ahead of the payment made with it
+  entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  let balance = 0;
+  const ledger = entries.map(entry => {
+    balance = roundToPrecision(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+
+  return {
+    open_invoices: openInvoices,
+    entries: ledger,
+    balance: Math.max(0, balance),
+  };
+};
+
+/**
+ * How much more a customer can buy on account. Uses the credit limit from the synced
+ * contact and the balance worked out from local data, so it works offline.
+ */
+export const getCreditStatus = async (customer: Customer): Promise<CreditStatus> => {
+  const { balance } = await getCustomerLedger(customer.id);
+  const hasLimit = customer.credit_limit !== null && customer.credit_limit !== undefined && customer.credit_limit !== '';
+  const limit = hasLimit ? Number(customer.credit_limit) || 0 : null;
+
+  return {
+    limit,
+    balance,
+    available: limit === null ? null : Math.max(0, roundToPrecision(limit - balance)),
+  };
+};
+
+/**
+ * Look for a payment on the server among the payment lines of the customer's invoices.
+ * The server settles a payment across invoices with lines that keep its client_uuid
+ * and the paid_on time it was sent with.
+ */
+const findServerPayment = async (payment: CustomerPayment, contactId: number): Promise<boolean> => {
+  const paidOn = toServerDateTime(payment.paid_on);
+
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await fetchSales(page, RECONCILE_PAGE_SIZE, { contact_id: contactId });
+    for (const sale of (response?.data || []) as ServerSale[]) {
+      const found = (sale.payment_lines || []).some(line => payment.client_uuid
+        ? line.client_uuid === payment.client_uuid
+        // Payments taken before they had a client_uuid
+        : line.paid_on === paidOn && line.method === payment.method
+      );
+      if (found) {
+        return true;
+      }
+    }
+    lastPage = response?.meta?.last_page || 1;
+    page++;
+  } while (page <= lastPage);
+
+  return false;
+};
+
+/**
+ * Send a payment taken at the till, unless an earlier attempt whose outcome is unknown
+ * already got it to the server
+ * @returns Whether the server has the payment
+ */
+export const sendCustomerPayment = async (localId: number): Promise<boolean> => {
+  const operationId = getCustomerPaymentOperationId(localId);
+  const payment: CustomerPayment | undefined = await getCustomerPayment(localId);
+  if (!payment || payment.is_synced) {
+    await updateOperationStatus(operationId, 'completed');
+    return true;
+  }
+
+  const operation = await claimOperation('customer_payment', { local_id: localId }, operationId, PROCESSING_TIMEOUT_MS);
+  // Being sent right now by another sync pass
+  if (!operation) {
+    return false;
+  }
+  const previouslySent = operation.attempts > 0;
+
+  try {
+    // A customer added at the till has to be on the server before its payments
+    const contactId = isTemporaryContactId(payment.contact_id)
+      ? await uploadCustomer(payment.contact_id)
+      : payment.contact_id;
+    if (!contactId) {
+      throw new Error('The customer has not been uploaded yet');
+    }
+
+    // Nothing is re-sent until the server has been checked for it
+    if (previouslySent && await findServerPayment(payment, contactId)) {
+      await markCustomerPaymentAsSynced(localId);
+      await updateOperationStatus(operationId, 'completed');
+      console.log(`Customer payment ID ${localId} was already on the server`);
+      return true;
+    }
+
+    const { local_id, contact_id, paid_on, is_synced, synced_at, ...details } = payment;
+    await createContactPayment({ ...details, contact_id: contactId, paid_on: toServerDateTime(paid_on) });
+    await markCustomerPaymentAsSynced(localId);
+    await updateOperationStatus(operationId, 'completed');
+    console.log(`Synced customer payment ID: ${localId}`);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error syncing customer payment';
+    await updateOperationStatus(operationId, 'failed', message);
+    console.error(`Error syncing customer payment ID ${localId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Take a payment against a customer's balance. It is stored and queued first, then sent
+ * straight away when online.
+ */
+export const recordCustomerPayment = async (
+  contactId: number,
+  payment: SalePayment
+): Promise<{ local_id: number; synced: boolean }> => {
+  const localId = await saveCustomerPayment({ ...payment, contact_id: contactId, client_uuid: uuidv4() });
+  await queueOperation('customer_payment', { local_id: localId }, getCustomerPaymentOperationId(localId));
+
+  const synced = navigator.onLine ? await sendCustomerPayment(localId) : false;
+  return { local_id: localId, synced };
+};
+
+/**
+ * Send every payment taken at the till that hasn't synced
+ * @returns The number sent
+ */
+export const syncCustomerPayments = async (): Promise<number> => {
+  const pending: CustomerPayment[] = await getUnSyncedCustomerPayments();
+  let synced = 0;
+  for (const payment of pending) {
+    if (await sendCustomerPayment(payment.local_id)) {
+      synced++;
+    }
+  }
+  return synced;
+};
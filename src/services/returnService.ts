@@ -0,0 +1,249 @@
+/**
+ * Sale returns. A return is recorded locally against a past sale, its quantities go
+ * straight back into local stock, and it is queued for the ERP's sell return API.
+ * The ERP keeps a single return per sale, so every sync sends each line's running total.
+ */
+import {
+  getSale,
+  getSaleReturn,
+  getSaleReturnsForSale,
+  markSaleReturnAsSynced,
+  saveSaleReturn,
+} from '@/lib/storage';
+import { createSellReturn, fetchSale, SalePayment, SellReturnData } from '@/services/api';
+import { restoreReturnStock } from '@/services/stockService';
+import {
+  getOperationsByStatus,
+  queueOperation,
+  QueuedOperation,
+  updateOperationStatus,
+} from '@/services/syncQueue';
+import { getCreatedTransactionId, StoredSale } from '@/utils/saleUtils';
+
+export interface SaleReturnLine {
+  // Position of the line in the original sale's products
+  line_index: number;
+  product_id: number;
+  variation_id?: number;
+  name?: string;
+  quantity: number;
+  unit_price_inc_tax: number;
+}
+
+export interface SaleReturn {
+  local_id?: number;
+  sale_local_id: number;
+  location_id: number;
+  contact_id?: number | null;
+  transaction_date?: string;
+  products: SaleReturnLine[];
+  refund: SalePayment;
+  total: number;
+  note?: string;
+  is_synced?: number;
+  // ERP ID of the return transaction once synced
+  transaction_id?: number | null;
+}
+
+interface ServerSellLine {
+  id: number;
+  variation_id: number;
+  quantity_returned?: string | number;
+  unit_price_inc_tax?: string | number;
+}
+
+interface SubmitResult {
+  success: boolean;
+  error?: string;
+  // The original sale isn't on the server yet, so the return has to wait
+  waiting?: boolean;
+}
+
+/**
+ * Quantities already returned from a sale, by line index
+ */
+export const getReturnedQuantities = async (saleLocalId: number): Promise<Record<number, number>> => {
+  const saleReturns: SaleReturn[] = await getSaleReturnsForSale(saleLocalId);
+  const returned: Record<number, number> = {};
+  saleReturns.forEach(saleReturn => {
+    saleReturn.products.forEach(line => {
+      returned[line.line_index] = (returned[line.line_index] || 0) + line.quantity;
+    });
+  });
+  return returned;
+};
+
+// The server's sell line for a returned line - same position if it matches, otherwise same variation
+const findSellLine = (sellLines: ServerSellLine[], line: SaleReturnLine): ServerSellLine | undefined => {
+  const sameIndex = sellLines[line.line_index];
+  if (sameIndex && sameIndex.variation_id === line.variation_id) {
+    return sameIndex;
+  }
+  return sellLines.find(sellLine => sellLine.variation_id === line.variation_id);
+};
+
+/**
+ * Whether the server's returned quantities already include this return. Returns of the
+ * same sale synced before it add up to what the server should have without it.
+ */
+const isReturnOnServer = async (saleReturn: SaleReturn, sellLines: ServerSellLine[]): Promise<boolean> => {
+  const ownLines = saleReturn.products.map(line => findSellLine(sellLines, line));
+  if (ownLines.length === 0 || ownLines.some(sellLine => !sellLine)) {
+    return false;
+  }
+
+  const saleReturns: SaleReturn[] = await getSaleReturnsForSale(saleReturn.sale_local_id);
+  const expected = new Map<number, number>();
+  const sentBefore = saleReturns.filter(other => other.is_synced && other.local_id !== saleReturn.local_id);
+  for (const line of [...sentBefore.flatMap(other => other.products), ...saleReturn.products]) {
+    const sellLine = findSellLine(sellLines, line);
+    if (sellLine) {
+      expected.set(sellLine.id, (expected.get(sellLine.id) || 0) + line.quantity);
+    }
+  }
+
+  return ownLines.every(sellLine =>
+    (parseFloat(String(sellLine.quantity_returned)) || 0) >= (expected.get(sellLine.id) || 0)
+  );
+};
+
+/**
+ * Send a stored return to the ERP
+ */
+export const submitSaleReturn = async (localId: number): Promise<SubmitResult> => {
+  const saleReturn: SaleReturn | undefined = await getSaleReturn(localId);
+  if (!saleReturn) {
+    return { success: false, error: 'Return not found' };
+  }
+  if (saleReturn.is_synced) {
+    return { success: true };
+  }
+
+  const sale: StoredSale | undefined = await getSale(saleReturn.sale_local_id);
+  if (!sale) {
+    return { success: false, error: 'Original sale not found' };
+  }
+  if (!sale.transaction_id) {
+    return { success: false, waiting: true, error: 'Original sale has not been synced yet' };
+  }
+
+  const response = await fetchSale(sale.transaction_id);
+  const serverSale = Array.isArray(response?.data) ? response.data[0] : response?.data;
+  const sellLines: ServerSellLine[] = serverSale?.sell_lines || [];
+
+  // A retry after a timeout may find the server already took this return - it would be
+  // counted twice if its quantities were added to the server's totals again
+  if (await isReturnOnServer(saleReturn, sellLines)) {
+    console.log(`Return ${localId} is already on the server`);
+    await markSaleReturnAsSynced(localId, null);
+    return { success: true };
+  }
+
+  // Start from what the server already has returned, then add this return
+  const returnLines = new Map<number, SellReturnData['products'][number]>();
+  sellLines
+    .filter(sellLine => parseFloat(String(sellLine.quantity_returned)) > 0)
+    .forEach(sellLine => {
+      returnLines.set(sellLine.id, {
+        sell_line_id: sellLine.id,
+        quantity: parseFloat(String(sellLine.quantity_returned)),
+        unit_price_inc_tax: parseFloat(String(sellLine.unit_price_inc_tax)) || 0,
+      });
+    });
+
+  for (const line of saleReturn.products) {
+    const sellLine = findSellLine(sellLines, line);
+    if (!sellLine) {
+      return { success: false, error: `No matching sale line on the server for ${line.name || line.product_id}` };
+    }
+    const existing = returnLines.get(sellLine.id);
+    returnLines.set(sellLine.id, {
+      sell_line_id: sellLine.id,
+      quantity: (existing?.quantity || 0) + line.quantity,
+      unit_price_inc_tax: line.unit_price_inc_tax,
+    });
+  }
+
+  const result = await createSellReturn({
+    transaction_id: sale.transaction_id,
+    transaction_date: new Date(saleReturn.transaction_date || Date.now())
+      .toISOString().replace('T', ' ').substring(0, 19),
+    products: Array.from(returnLines.values()),
+    ...(saleReturn.refund?.amount > 0 && { payments: [saleReturn.refund] }),
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  await markSaleReturnAsSynced(localId, getCreatedTransactionId(result.data));
+  return { success: true };
+};
+
+/**
+ * Run a queued return operation that is already marked as processing
+ * @returns Whether the return reached the server
+ */
+export const processReturnOperation = async (op: QueuedOperation): Promise<boolean> => {
+  try {
+    const result = await submitSaleReturn(op.data.local_id);
+
+    if (result.success) {
+      await updateOperationStatus(op.id, 'completed');
+      return true;
+    }
+
+    // Not a failure - try again once the sale itself has synced
+    await updateOperationStatus(op.id, result.waiting ? 'pending' : 'failed', result.error);
+    return false;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error syncing return';
+    await updateOperationStatus(op.id, 'failed', message);
+    return false;
+  }
+};
+
+/**
+ * Send every return still pending in the sync queue
+ * @returns Number of returns synced
+ */
+export const processQueuedReturns = async (): Promise<number> => {
+  const pendingOps = await getOperationsByStatus('pending');
+  let syncedCount = 0;
+
+  for (const op of pendingOps.filter(pendingOp => pendingOp.type === 'sale_return')) {
+    await updateOperationStatus(op.id, 'processing');
+    if (await processReturnOperation(op)) {
+      syncedCount++;
+    }
+  }
+
+  return syncedCount;
+};
+
+/**
+ * Record a return: store it, put the stock back and queue it for the server.
+ * When online the queue is processed straight away.
+ */
+export const recordSaleReturn = async (saleReturn: SaleReturn): Promise<SaleReturn> => {
+  const record: SaleReturn = {
+    ...saleReturn,
+    transaction_date: new Date().toISOString(),
+    is_synced: 0,
+    transaction_id: null,
+  };
+
+  const localId = await saveSaleReturn(record);
+  await restoreReturnStock(record);
+  await queueOperation('sale_return', { local_id: localId });
+
+  if (navigator.onLine) {
+    try {
+      await processQueuedReturns();
+    } catch (error) {
+      console.error('Error sending return to server:', error);
+    }
+  }
+
+  return (await getSaleReturn(localId)) || { ...record, local_id: localId };
+};
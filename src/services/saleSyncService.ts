@@ -0,0 +1,204 @@
+/**
+ * Sending stored sales to the server without creating duplicates. Every sale has a
+ * client_uuid that goes with the sell request, and a single queue operation keyed by
+ * it. Once a sale has been sent and its outcome is unknown (e.g. the request timed out
+ * after the server accepted it), the server is searched for it before it is sent again.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { getSale, markSaleAsSynced, updateSale } from '@/lib/storage';
+import { createSale, fetchSales } from '@/services/api';
+import { isTemporaryContactId, uploadCustomer } from '@/services/customerService';
+import {
+  claimOperation,
+  deleteOperation,
+  QueuedOperation,
+  updateOperationStatus,
+} from '@/services/syncQueue';
+import { getCreatedTransactionId, StoredSale } from '@/utils/saleUtils';
+
+export type SaleSyncResult = 'synced' | 'reconciled' | 'in_progress' | 'failed';
+
+// A send still marked processing after this long was interrupted (e.g. the tab closed)
+const PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
+
+const RECONCILE_PAGE_SIZE = 100;
+
+export const getSaleOperationId = (clientUuid: string): string => `sale_${clientUuid}`;
+
+/**
+ * Give a sale its client_uuid if it was stored before sales had one
+ */
+export const ensureClientUuid = async (sale: StoredSale): Promise<StoredSale> => {
+  if (sale.client_uuid) {
+    return sale;
+  }
+  const updated = { ...sale, client_uuid: uuidv4() };
+  await updateSale(updated);
+  return updated;
+};
+
+const toDateParam = (date: Date): string => date.toISOString().substring(0, 10);
+
+/**
+ * Look for a sale on the server by its client_uuid or invoice number. Searches the
+ * sale's location from the day before to the day after, to allow for time zones.
+ * @returns The server's sale, or null if it isn't there
+ */
+export const findServerSale = async (sale: StoredSale): Promise<{ id: number } | null> => {
+  const date = new Date(sale.transaction_date);
+  const day = 24 * 60 * 60 * 1000;
+  const params = {
+    location_id: sale.location_id,
+    start_date: toDateParam(new Date(date.getTime() - day)),
+    end_date: toDateParam(new Date(date.getTime() + day)),
+  };
+
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await fetchSales(page, RECONCILE_PAGE_SIZE, params);
+    const serverSales: { id: number; client_uuid?: string; invoice_no?: string }[] = response?.data || [];
+    const match = serverSales.find(serverSale =>
+      (sale.client_uuid && serverSale.client_uuid === sale.client_uuid) ||
+      (sale.invoice_no && serverSale.invoice_no === sale.invoice_no)
+    );
+    if (match) {
+      return match;
+    }
+    lastPage = response?.meta?.last_page || 1;
+    page++;
+  } while (page <= lastPage);
+
+  return null;
+};
+
+/**
+ * Point a sale for a customer added at the till at the customer's server ID,
+ * uploading the customer first if it hasn't been
+ * @returns The updated sale, or null if the customer couldn't be uploaded
+ */
+const ensureServerContact = async (sale: StoredSale): Promise<StoredSale | null> => {
+  if (!isTemporaryContactId(sale.contact_id)) {
+    return sale;
+  }
+  const contactId = await uploadCustomer(sale.contact_id);
+  if (!contactId) {
+    return null;
+  }
+  const updated = { ...sale, contact_id: contactId };
+  await updateSale(updated);
+  return updated;
+};
+
+/**
+ * Send one stored sale, unless it is already on the server or being sent
+ */
+export const syncSale = async (storedSale: StoredSale): Promise<SaleSyncResult> => {
+  const sale = await ensureServerContact(await ensureClientUuid(storedSale));
+  if (!sale) {
+    console.error(`Sale ID ${storedSale.local_id} is waiting for its customer to upload`);
+    return 'failed';
+  }
+  const { local_id, is_synced, ...saleData } = sale;
+  const clientUuid = sale.client_uuid as string;
+
+  // Claimed in one transaction, so the send after checkout and a background pass
+  // starting at the same moment can't both send it
+  const operation = await claimOperation(
+    'sale',
+    { local_id, client_uuid: clientUuid },
+    getSaleOperationId(clientUuid),
+    PROCESSING_TIMEOUT_MS
+  );
+  if (!operation) {
+    return 'in_progress';
+  }
+
+  const operationId = operation.id;
+  const previouslySent = operation.attempts > 0;
+
+  // Synced or withdrawn since the caller read it
+  const current: StoredSale | undefined = await getSale(local_id);
+  if (!current || current.is_synced) {
+    await updateOperationStatus(operationId, 'completed');
+    return 'synced';
+  }
+
+  try {
+    // An earlier send may have reached the server without us seeing the reply
+    if (previouslySent) {
+      const serverSale = await findServerSale(sale);
+      if (serverSale) {
+        await markSaleAsSynced(local_id, serverSale.id);
+        await updateOperationStatus(operationId, 'completed');
+        console.log(`Sale ID ${local_id} was already on the server as ${serverSale.id}`);
+        return 'reconciled';
+      }
+    }
+
+    const response = await createSale(saleData);
+    if (response.success) {
+      await markSaleAsSynced(local_id, getCreatedTransactionId(response.data));
+      await updateOperationStatus(operationId, 'completed');
+      console.log(`Synced sale ID: ${local_id}`);
+      return 'synced';
+    }
+
+    await updateOperationStatus(operationId, 'failed', response.error || 'Unknown error');
+    console.error(`Failed to sync sale ID: ${local_id}`, response.error);
+    return 'failed';
+  } catch (error) {
+    // Includes failing to reach the server to reconcile - nothing is re-sent until it can be checked
+    const message = error instanceof Error ? error.message : 'Error syncing sale';
+    await updateOperationStatus(operationId, 'failed', message);
+    console.error(`Error syncing sale ID ${local_id}:`, error);
+    return 'failed';
+  }
+};
+
+/**
+ * Make sure a stored sale that hasn't synced is never sent, e.g. a quotation that has been
+ * completed as a sale. An earlier send whose outcome is unknown may have reached the server.
+ * @returns The server's ID for the sale if it got there, otherwise null
+ */
+export const withdrawSale = async (storedSale: StoredSale): Promise<number | null> => {
+  const sale = await ensureClientUuid(storedSale);
+  const clientUuid = sale.client_uuid as string;
+
+  const operation = await claimOperation(
+    'sale',
+    { local_id: sale.local_id, client_uuid: clientUuid },
+    getSaleOperationId(clientUuid),
+    PROCESSING_TIMEOUT_MS
+  );
+  if (!operation) {
+    throw new Error('The sale is being sent');
+  }
+
+  try {
+    const serverSale = operation.attempts > 0 ? await findServerSale(sale) : null;
+    // Marked synced so no sync pass sends it
+    await markSaleAsSynced(sale.local_id, serverSale?.id ?? null);
+    await updateOperationStatus(operation.id, 'completed');
+    return serverSale?.id ?? null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error withdrawing sale';
+    await updateOperationStatus(operation.id, 'failed', message);
+    throw error;
+  }
+};
+
+/**
+ * Tidy up a failed sale operation. Sales are only re-sent by syncSale, so this just
+ * completes operations for sales that have since synced and removes the duplicate
+ * operations queued before sales had a single operation each.
+ */
+export const settleSaleOperation = async (op: QueuedOperation): Promise<void> => {
+  const sale: StoredSale | undefined = await getSale(op.data?.local_id);
+
+  if (!sale || sale.is_synced) {
+    await updateOperationStatus(op.id, 'completed');
+  } else if (!sale.client_uuid || op.id !== getSaleOperationId(sale.client_uuid)) {
+    await deleteOperation(op.id);
+  }
+};
@@ -0,0 +1,77 @@
+/**
+ * Local stock keeping. Sales are deducted from the stored products straight away so
+ * the POS shows what is left, even offline, and returns put their quantities back.
+ * The server's figures replace ours on the next product sync, after which sales and
+ * returns the server hasn't seen yet are applied again.
+ */
+import {
+  adjustProductStock,
+  getUnSyncedSaleReturns,
+  getUnSyncedSales,
+  StockAdjustment,
+} from '@/lib/storage';
+import { SaleData } from '@/services/api';
+import { getSaleType } from '@/utils/saleUtils';
+
+// A sale or return - anything with a location and product quantities
+interface StockMovement {
+  location_id: number;
+  products: Pick<SaleData['products'][number], 'product_id' | 'variation_id' | 'quantity'>[];
+}
+
+// Stock movements for a sale's lines - negative when stock leaves
+const getStockAdjustments = (sale: StockMovement, direction: 1 | -1): StockAdjustment[] => {
+  return sale.products.map(product => ({
+    product_id: product.product_id,
+    variation_id: product.variation_id,
+    location_id: sale.location_id,
+    quantity: direction * product.quantity,
+  }));
+};
+
+/**
+ * Take a completed sale's quantities out of local stock
+ */
+export const deductSaleStock = async (sale: StockMovement): Promise<void> => {
+  try {
+    await adjustProductStock(getStockAdjustments(sale, -1));
+  } catch (error) {
+    console.error('Error updating local stock for sale:', error);
+  }
+};
+
+/**
+ * Put a return's quantities back into local stock
+ */
+export const restoreReturnStock = async (saleReturn: StockMovement): Promise<void> => {
+  try {
+    await adjustProductStock(getStockAdjustments(saleReturn, 1));
+  } catch (error) {
+    console.error('Error updating local stock for return:', error);
+  }
+};
+
+/**
+ * Re-apply sales and returns that are still waiting to sync. Call this right after
+ * products are replaced with server data, which doesn't include them yet.
+ * @param stockSyncedSince When the sync pass started - products it didn't refresh already
+ * have these quantities taken off
+ */
+export const reapplyPendingStock = async (stockSyncedSince: number): Promise<void> => {
+  try {
+    const pendingSales: SaleData[] = await getUnSyncedSales();
+    const pendingReturns: StockMovement[] = await getUnSyncedSaleReturns();
+    const adjustments = [
+      // Quotations and drafts never took stock
+      ...pendingSales
+        .filter(sale => getSaleType(sale) === 'final')
+        .flatMap(sale => getStockAdjustments(sale, -1)),
+      ...pendingReturns.flatMap(saleReturn => getStockAdjustments(saleReturn, 1)),
+    ];
+    if (adjustments.length > 0) {
+      await adjustProductStock(adjustments, stockSyncedSince);
+    }
+  } catch (error) {
+    console.error('Error reapplying pending stock:', error);
+  }
+};
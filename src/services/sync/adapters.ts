@@ -0,0 +1,367 @@
+/**
+ * The built-in sync adapters, in the order they run: local changes are pushed
+ * first, then server data is pulled.
+ */
+import { getBusinessSettings } from '@/lib/businessSettings';
+import {
+  getUnSyncedSales,
+  removeUnseenContacts,
+  removeUnseenProducts,
+  saveContacts,
+  saveProducts,
+  saveProductStock,
+} from '@/lib/storage';
+import { fetchContacts, fetchProducts } from '@/services/api';
+import { syncCustomerGroups } from '@/services/customerGroupService';
+import { uploadPendingCustomers } from '@/services/customerService';
+import { deleteQueuedSuspendedSales } from '@/services/heldCartService';
+import { closeQueuedQuotations } from '@/services/quotationService';
+import { downloadReceivables, syncCustomerPayments } from '@/services/receivableService';
+import { processQueuedReturns } from '@/services/returnService';
+import { syncSale } from '@/services/saleSyncService';
+import { reapplyPendingStock } from '@/services/stockService';
+import { getOperationsByStatus, updateOperationStatus } from '@/services/syncQueue';
+import { syncTaxRates } from '@/services/taxRateService';
+import { toast } from 'sonner';
+import { getOperationHandler } from './operations';
+import { downloadAllPages, getDownloadProgress, PagedDownloadOptions, PagedDownloadResult } from './pagedDownload';
+import {
+  getSyncWatermark,
+  isReconcileDue,
+  isStale,
+  markReconciled,
+  updateSyncTimestamp,
+  updateSyncWatermark,
+} from './timestamps';
+import { SyncAdapter, SyncContext } from './types';
+
+const PRODUCT_THRESHOLD_HOURS = 24;
+// Refreshing stock downloads every product, so forced passes don't bring it forward
+const STOCK_THRESHOLD_HOURS = 24;
+const CONTACT_THRESHOLD_HOURS = 6;
+// Balances decide how much customers can buy on account, so they are kept fresher
+const RECEIVABLE_THRESHOLD_HOURS = 1;
+const DOWNLOAD_PAGE_SIZE = 200;
+// Deletions on the server only show up when everything is downloaded again
+const RECONCILE_THRESHOLD_HOURS = 7 * 24;
+// Newest first: a record changed during a download moves to a page already fetched, so the
+// records after it only shift onto later pages and none is skipped
+const DOWNLOAD_ORDER = { order_by: 'updated_at', order_direction: 'desc' };
+const MAX_RETRY_ATTEMPTS = 3;
+
+// Customers added or edited at the till, uploaded first so their sales can refer to them
+export const customersAdapter: SyncAdapter = {
+  entity: 'customers',
+  direction: 'push',
+  failureMessage: 'Failed to upload new customers',
+  isDue: () => true,
+  run: () => uploadPendingCustomers(),
+};
+
+// Offline sales, each sent through its own queue operation so it is never sent twice
+export const salesAdapter: SyncAdapter = {
+  entity: 'sales',
+  direction: 'push',
+  failureMessage: 'Failed to sync offline sales',
+  isDue: () => true,
+  async run({ showToast }) {
+    const unSyncedSales = await getUnSyncedSales();
+    console.log(`Found ${unSyncedSales.length} unsynced sales`);
+
+    let syncedCount = 0;
+    let failedCount = 0;
+    for (const sale of unSyncedSales) {
+      const result = await syncSale(sale);
+      if (result === 'synced' || result === 'reconciled') {
+        syncedCount++;
+      } else if (result === 'failed') {
+        failedCount++;
+      }
+    }
+
+    if (showToast && syncedCount > 0) {
+      toast.success(`Successfully synced ${syncedCount} sales`);
+    }
+    if (showToast && failedCount > 0) {
+      toast.error(`Failed to sync ${failedCount} sales. They will be retried later.`);
+    }
+    return syncedCount;
+  },
+};
+
+// Payments against customer balances, sent after the sales they may be paying off
+export const paymentsAdapter: SyncAdapter = {
+  entity: 'payments',
+  direction: 'push',
+  failureMessage: 'Failed to sync customer payments',
+  isDue: () => true,
+  run: () => syncCustomerPayments(),
+};
+
+// Returns, which can only be sent once their sale is on the server
+export const returnsAdapter: SyncAdapter = {
+  entity: 'returns',
+  direction: 'push',
+  isDue: () => true,
+  run: () => processQueuedReturns(),
+};
+
+// Suspended sells of held carts that were resumed or removed while offline
+export const heldCartsAdapter: SyncAdapter = {
+  entity: 'held_carts',
+  direction: 'push',
+  isDue: () => true,
+  run: () => deleteQueuedSuspendedSales(),
+};
+
+// Quotations and drafts completed as sales, closed once their sale has synced
+export const quotationsAdapter: SyncAdapter = {
+  entity: 'quotations',
+  direction: 'push',
+  isDue: () => true,
+  run: () => closeQueuedQuotations(),
+};
+
+// Failed operations from earlier passes, handed to the handler for their type
+export const queueAdapter: SyncAdapter = {
+  entity: 'queue',
+  direction: 'push',
+  isDue: () => true,
+  async run() {
+    const failedOps = await getOperationsByStatus('failed');
+    let processed = 0;
+
+    for (const operation of failedOps) {
+      if (operation.attempts >= MAX_RETRY_ATTEMPTS) {
+        console.log(`Operation ${operation.id} exceeded max retry attempts`);
+        continue;
+      }
+
+      const handler = getOperationHandler(operation.type);
+      if (!handler) {
+        continue;
+      }
+
+      try {
+        await handler(operation);
+        processed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error during retry';
+        await updateOperationStatus(operation.id, 'failed', message);
+      }
+    }
+
+    return processed;
+  },
+};
+
+interface ServerRecord {
+  id: number;
+  updated_at?: string;
+}
+
+/**
+ * Download the records changed since the last download. When reconciliation is due,
+ * or there is nothing to compare against yet, download everything instead and delete
+ * the local records the server no longer has.
+ * @param query Sent with every page. Changing it downloads everything again, so stored
+ * records pick up the extra data.
+ * @returns The download, and whether it was the full list
+ */
+const pullServerRecords = async <T extends ServerRecord>(
+  entity: 'products' | 'contacts',
+  { reportProgress }: SyncContext,
+  fetchPage: PagedDownloadOptions<T>['fetchPage'],
+  savePage: PagedDownloadOptions<T>['savePage'],
+  removeUnseen: (syncGeneration: number) => Promise<number>,
+  query: Record<string, string> = {}
+): Promise<PagedDownloadResult & { reconciled: boolean }> => {
+  const queryKey = new URLSearchParams(query).toString();
+  const orderedQuery: Record<string, string> = { ...query, ...DOWNLOAD_ORDER };
+  const watermark = getSyncWatermark(entity);
+  const progress = getDownloadProgress(entity, DOWNLOAD_PAGE_SIZE);
+  // An unfinished download carries on with the query it started with
+  const params = progress && Object.entries(query).every(([key, value]) => progress.params[key] === value)
+    ? progress.params
+    : watermark && !isReconcileDue(entity, RECONCILE_THRESHOLD_HOURS, queryKey)
+      ? { ...orderedQuery, updated_after: watermark }
+      : orderedQuery;
+  const reconcile = !params.updated_after;
+
+  const download = (downloadParams: Record<string, string>, save: typeof savePage) => downloadAllPages<T>({
+    entity,
+    perPage: DOWNLOAD_PAGE_SIZE,
+    params: downloadParams,
+    fetchPage,
+    savePage: save,
+    getUpdatedAt: record => record.updated_at,
+    onProgress: (page, lastPage) => reportProgress(entity, page, lastPage),
+  });
+
+  const result = await download(params, savePage);
+
+  if (reconcile && result.max_updated_at) {
+    // Records changed during the download may have moved past it. They are newer than
+    // anything it saw, and count as seen so they aren't removed below.
+    const catchUp = await download(
+      { ...orderedQuery, updated_after: result.max_updated_at },
+      items => savePage(items, result.started_at)
+    );
+    result.count += catchUp.count;
+    result.max_updated_at = catchUp.max_updated_at ?? result.max_updated_at;
+  }
+
+  if (reconcile) {
+    const removed = await removeUnseen(result.started_at);
+    console.log(`Removed ${removed} ${entity} no longer on the server`);
+    markReconciled(entity, queryKey);
+  }
+  if (result.max_updated_at) {
+    updateSyncWatermark(entity, result.max_updated_at);
+  }
+  return { ...result, reconciled: reconcile };
+};
+
+export const productsAdapter: SyncAdapter = {
+  entity: 'products',
+  direction: 'pull',
+  failureMessage: 'Failed to sync products',
+  isDue: ({ force }) => force || isStale('products', PRODUCT_THRESHOLD_HOURS),
+  async run(context) {
+    const passStartedAt = Date.now();
+    try {
+      const result = await pullServerRecords(
+        'products',
+        context,
+        fetchProducts,
+        saveProducts,
+        removeUnseenProducts,
+        // Each variation's selling price group prices, for customer group pricing
+        { selling_price_group: '1' }
+      );
+      // Only a completed download counts as fresh
+      updateSyncTimestamp('products');
+      if (result.reconciled) {
+        updateSyncTimestamp('stock');
+      }
+      return result.count;
+    } finally {
+      // Server stock doesn't include sales still waiting to sync. Only products refreshed
+      // in this pass get them again - the rest still have them taken off.
+      await reapplyPendingStock(passStartedAt);
+    }
+  },
+};
+
+// Stock moves without changing a product's updated_at, so changes-only downloads miss it.
+// The stock of every product is fetched again on its own schedule.
+export const stockAdapter: SyncAdapter = {
+  entity: 'stock',
+  direction: 'pull',
+  failureMessage: 'Failed to refresh stock',
+  isDue: () => isStale('stock', STOCK_THRESHOLD_HOURS),
+  async run({ reportProgress }) {
+    const passStartedAt = Date.now();
+    try {
+      const { count } = await downloadAllPages({
+        entity: 'stock',
+        perPage: DOWNLOAD_PAGE_SIZE,
+        params: DOWNLOAD_ORDER,
+        fetchPage: fetchProducts,
+        savePage: saveProductStock,
+        onProgress: (page, lastPage) => reportProgress('stock', page, lastPage),
+      });
+      updateSyncTimestamp('stock');
+      return count;
+    } finally {
+      await reapplyPendingStock(passStartedAt);
+    }
+  },
+};
+
+// Tax rates change rarely, so they follow the product schedule
+export const taxRatesAdapter: SyncAdapter = {
+  entity: 'tax_rates',
+  direction: 'pull',
+  failureMessage: 'Failed to sync tax rates',
+  isDue: ({ force }) => force || isStale('tax_rates', PRODUCT_THRESHOLD_HOURS),
+  async run() {
+    const taxRates = await syncTaxRates();
+    updateSyncTimestamp('tax_rates');
+    return taxRates.length;
+  },
+};
+
+// Customer groups and selling price groups, which set the prices a customer pays
+export const customerGroupsAdapter: SyncAdapter = {
+  entity: 'customer_groups',
+  direction: 'pull',
+  failureMessage: 'Failed to sync customer groups',
+  isDue: ({ force }) => force || isStale('customer_groups', PRODUCT_THRESHOLD_HOURS),
+  async run() {
+    const count = await syncCustomerGroups();
+    updateSyncTimestamp('customer_groups');
+    return count;
+  },
+};
+
+export const contactsAdapter: SyncAdapter = {
+  entity: 'contacts',
+  direction: 'pull',
+  failureMessage: 'Failed to sync contacts',
+  isDue: ({ force }) => force || isStale('contacts', CONTACT_THRESHOLD_HOURS),
+  async run(context) {
+    const { count } = await pullServerRecords(
+      'contacts',
+      context,
+      (page, perPage, params) => fetchContacts(page, perPage, 'customer', params),
+      saveContacts,
+      removeUnseenContacts
+    );
+    updateSyncTimestamp('contacts');
+    return count;
+  },
+};
+
+// Unpaid invoices, for customer balances and credit limits offline
+export const receivablesAdapter: SyncAdapter = {
+  entity: 'receivables',
+  direction: 'pull',
+  failureMessage: 'Failed to sync customer balances',
+  isDue: ({ force }) => force || isStale('receivables', RECEIVABLE_THRESHOLD_HOURS),
+  async run() {
+    const count = await downloadReceivables();
+    updateSyncTimestamp('receivables');
+    return count;
+  },
+};
+
+// Settings are cached for a few minutes by getBusinessSettings, so they are checked every pass
+export const settingsAdapter: SyncAdapter = {
+  entity: 'settings',
+  direction: 'pull',
+  failureMessage: 'Failed to sync business settings',
+  isDue: () => true,
+  async run({ force }) {
+    await getBusinessSettings(force);
+    updateSyncTimestamp('settings');
+    return 1;
+  },
+};
+
+export const defaultAdapters: SyncAdapter[] = [
+  customersAdapter,
+  salesAdapter,
+  paymentsAdapter,
+  returnsAdapter,
+  heldCartsAdapter,
+  quotationsAdapter,
+  queueAdapter,
+  productsAdapter,
+  stockAdapter,
+  taxRatesAdapter,
+  customerGroupsAdapter,
+  contactsAdapter,
+  receivablesAdapter,
+  settingsAdapter,
+];
@@ -0,0 +1,160 @@
+/**
+ * The sync engine. Adapters for each kind of data run in one pass under a single
+ * mutex, so manual, login and background syncs never overlap, and progress is
+ * published as events the UI can subscribe to.
+ */
+import { cleanupCompletedOperations, isSyncNeeded, updateLastSyncTimestamp } from '@/services/syncQueue';
+import { toast } from 'sonner';
+import { defaultAdapters } from './adapters';
+import { emitSyncEvent } from './events';
+import { createMutex } from './mutex';
+import { SyncAdapter, SyncContext, SyncEntity, SyncOptions } from './types';
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+const adapters: SyncAdapter[] = [...defaultAdapters];
+const syncMutex = createMutex();
+let syncInterval: number | null = null;
+
+/**
+ * Add an adapter, or replace the one for the same entity
+ */
+export const registerSyncAdapter = (adapter: SyncAdapter): void => {
+  const index = adapters.findIndex(existing => existing.entity === adapter.entity);
+  if (index >= 0) {
+    adapters[index] = adapter;
+  } else {
+    adapters.push(adapter);
+  }
+};
+
+export const isSyncRunning = (): boolean => syncMutex.isLocked();
+
+// entities limits the pass to some adapters; a full pass also tidies the queue
+// and, when every adapter succeeds, counts as the last sync
+const runAdapters = async (context: SyncContext, entities?: SyncEntity[]): Promise<boolean> => {
+  const failed: SyncEntity[] = [];
+  const fullPass = !entities;
+  emitSyncEvent({ type: 'sync_started', reason: context.reason });
+
+  try {
+    if (fullPass) {
+      await cleanupCompletedOperations();
+    }
+
+    const selected = fullPass ? adapters : adapters.filter(adapter => entities.includes(adapter.entity));
+    const ordered = [
+      ...selected.filter(adapter => adapter.direction === 'push'),
+      ...selected.filter(adapter => adapter.direction === 'pull'),
+    ];
+
+    // One adapter failing doesn't stop the rest
+    for (const adapter of ordered) {
+      if (!adapter.isDue(context)) {
+        console.log(`${adapter.entity} sync skipped - data is fresh`);
+        emitSyncEvent({ type: 'adapter_skipped', entity: adapter.entity });
+        continue;
+      }
+
+      try {
+        const count = await adapter.run(context);
+        console.log(`Synced ${count} ${adapter.entity}`);
+        emitSyncEvent({ type: 'adapter_completed', entity: adapter.entity, count });
+      } catch (error) {
+        console.error(`Error syncing ${adapter.entity}:`, error);
+        failed.push(adapter.entity);
+        emitSyncEvent({
+          type: 'adapter_failed',
+          entity: adapter.entity,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        if (context.showToast && adapter.failureMessage) {
+          toast.error(adapter.failureMessage);
+        }
+      }
+    }
+
+    emitSyncEvent({ type: 'sync_completed', reason: context.reason, failed });
+    // Leave the last sync time alone so the failed data is tried again on the next tick
+    if (!fullPass || failed.length > 0) {
+      return failed.length === 0;
+    }
+
+    updateLastSyncTimestamp();
+    if (context.showToast) toast.success('Data synchronized successfully');
+    return true;
+  } catch (error) {
+    console.error('Error in sync:', error);
+    emitSyncEvent({
+      type: 'sync_failed',
+      reason: context.reason,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    if (context.showToast) toast.error('Sync failed. Will retry later.');
+    return false;
+  }
+};
+
+/**
+ * Run a sync pass. A pass requested while another is running waits for it to finish.
+ * @returns false if offline, the pass failed as a whole or any adapter failed
+ */
+export const runSync = async (options: SyncOptions = {}): Promise<boolean> => {
+  const context: SyncContext = {
+    reason: options.reason || 'manual',
+    force: options.force ?? false,
+    showToast: options.showToast ?? false,
+    reportProgress: (entity, completed, total) => {
+      emitSyncEvent({ type: 'adapter_progress', entity, completed, total });
+    },
+  };
+
+  if (!navigator.onLine) {
+    emitSyncEvent({ type: 'sync_skipped', reason: context.reason, cause: 'offline' });
+    if (context.showToast) toast.error("You're offline. Can't sync data.");
+    return false;
+  }
+
+  return syncMutex.runExclusive(() => runAdapters(context, options.entities));
+};
+
+export const syncData = (showToast = false, forceSync = false): Promise<boolean> => {
+  return runSync({ reason: 'manual', showToast, force: forceSync });
+};
+
+/**
+ * Force sync all data on login - ignores timing thresholds
+ * This ensures both products and contacts are always fresh after login
+ */
+export const syncDataOnLogin = (showToast = false): Promise<boolean> => {
+  return runSync({ reason: 'login', showToast, force: true });
+};
+
+export const startBackgroundSync = (): void => {
+  // Clear any existing interval
+  if (syncInterval) {
+    window.clearInterval(syncInterval);
+  }
+
+  syncInterval = window.setInterval(() => {
+    // A pass already running covers this tick
+    if (syncMutex.isLocked()) {
+      emitSyncEvent({ type: 'sync_skipped', reason: 'background', cause: 'busy' });
+      return;
+    }
+    if (navigator.onLine && isSyncNeeded()) {
+      console.log('Running background sync...');
+      runSync({ reason: 'background' });
+    }
+  }, SYNC_INTERVAL_MS);
+
+  console.log('Background sync scheduled');
+};
+
+export const stopBackgroundSync = (): void => {
+  if (syncInterval) {
+    window.clearInterval(syncInterval);
+    syncInterval = null;
+    console.log('Background sync stopped');
+  }
+};
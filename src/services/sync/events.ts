@@ -0,0 +1,24 @@
+import { SyncEvent, SyncEventListener } from './types';
+
+const listeners = new Set<SyncEventListener>();
+
+/**
+ * Listen to sync progress
+ * @returns A function that stops listening
+ */
+export const subscribeToSync = (listener: SyncEventListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const emitSyncEvent = (event: SyncEvent): void => {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error in sync event listener:', error);
+    }
+  });
+};
@@ -0,0 +1,21 @@
+export {
+  isSyncRunning,
+  registerSyncAdapter,
+  runSync,
+  startBackgroundSync,
+  stopBackgroundSync,
+  syncData,
+  syncDataOnLogin,
+} from './engine';
+export { subscribeToSync } from './events';
+export { registerOperationHandler } from './operations';
+export type {
+  OperationHandler,
+  SyncAdapter,
+  SyncContext,
+  SyncEntity,
+  SyncEvent,
+  SyncEventListener,
+  SyncOptions,
+  SyncReason,
+} from './types';
@@ -0,0 +1,33 @@
+export interface Mutex {
+  isLocked(): boolean;
+  // Wait for the lock, run the task, then release it - even if the task throws
+  runExclusive<T>(task: () => Promise<T>): Promise<T>;
+}
+
+export const createMutex = (): Mutex => {
+  let tail: Promise<void> = Promise.resolve();
+  let locked = 0;
+
+  return {
+    isLocked() {
+      return locked > 0;
+    },
+
+    async runExclusive(task) {
+      locked++;
+      const previous = tail;
+      let release = () => {};
+      tail = new Promise(resolve => {
+        release = resolve;
+      });
+
+      try {
+        await previous;
+        return await task();
+      } finally {
+        locked--;
+        release();
+      }
+    },
+  };
+};
@@ -0,0 +1,51 @@
+/**
+ * Handlers for operations retried from the sync queue, by operation type.
+ * Types without a handler (e.g. 'attendance' for now) stay queued until one is registered.
+ */
+import { sendCustomerUpdate, uploadCustomer } from '@/services/customerService';
+import { deleteSuspendedSale } from '@/services/heldCartService';
+import { sendCustomerPayment } from '@/services/receivableService';
+import { closeConvertedQuotation } from '@/services/quotationService';
+import { processReturnOperation } from '@/services/returnService';
+import { settleSaleOperation } from '@/services/saleSyncService';
+import { QueueableOperationType, updateOperationStatus } from '@/services/syncQueue';
+import { OperationHandler } from './types';
+
+const operationHandlers = new Map<QueueableOperationType, OperationHandler>();
+
+export const registerOperationHandler = (type: QueueableOperationType, handler: OperationHandler): void => {
+  operationHandlers.set(type, handler);
+};
+
+export const getOperationHandler = (type: QueueableOperationType): OperationHandler | undefined => {
+  return operationHandlers.get(type);
+};
+
+// Sales are only re-sent by the sales adapter - failed operations are just tidied up
+registerOperationHandler('sale', settleSaleOperation);
+
+registerOperationHandler('sale_return', async (operation) => {
+  await updateOperationStatus(operation.id, 'processing');
+  await processReturnOperation(operation);
+});
+
+// Either a customer added at the till or an edit to one
+registerOperationHandler('customer', async (operation) => {
+  if (operation.data?.temporary_id) {
+    await uploadCustomer(operation.data.temporary_id);
+  } else {
+    await sendCustomerUpdate(operation.data?.contact_id);
+  }
+});
+
+registerOperationHandler('customer_payment', async (operation) => {
+  await sendCustomerPayment(operation.data?.local_id);
+});
+
+registerOperationHandler('suspended_sale_delete', async (operation) => {
+  await deleteSuspendedSale(operation.data?.transaction_id);
+});
+
+registerOperationHandler('quotation_close', async (operation) => {
+  await closeConvertedQuotation(operation.data?.local_id);
+});
@@ -0,0 +1,141 @@
+/**
+ * Downloads that walk every page of a paginated API list. Each page is saved as it
+ * arrives and the position is remembered, so an interrupted download carries on from
+ * the next page instead of starting over.
+ */
+import { getLocalItemAsJson, setLocalItem } from '@/lib/storage';
+import { SyncEntity } from './types';
+
+interface DownloadProgress {
+  next_page: number;
+  last_page: number;
+  per_page: number;
+  // Records saved so far
+  count: number;
+  started_at: number;
+  // Query the download was started with - a resumed download must ask for the same records
+  params: Record<string, string>;
+  // Latest updated_at among the records saved so far
+  max_updated_at?: string;
+}
+
+// Laravel paginated resource, as returned by the connector API
+interface PagedResponse<T> {
+  data?: T[];
+  meta?: { current_page?: number; last_page?: number };
+}
+
+export interface PagedDownloadOptions<T> {
+  entity: SyncEntity;
+  perPage: number;
+  params?: Record<string, string>;
+  fetchPage(page: number, perPage: number, params: Record<string, string>): Promise<PagedResponse<T>>;
+  // Should write the whole page in one transaction. startedAt is the same for every
+  // page of a download, including pages saved before it was resumed.
+  savePage(items: T[], startedAt: number): Promise<unknown>;
+  getUpdatedAt?(item: T): string | undefined;
+  onProgress?(page: number, lastPage: number): void;
+}
+
+export interface PagedDownloadResult {
+  count: number;
+  started_at: number;
+  max_updated_at?: string;
+}
+
+const DOWNLOAD_PROGRESS_KEY = 'sync_download_progress';
+
+// An unfinished download older than this starts again from the first page
+const RESUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const getAllProgress = (): Partial<Record<SyncEntity, DownloadProgress>> => {
+  return getLocalItemAsJson<Partial<Record<SyncEntity, DownloadProgress>>>(DOWNLOAD_PROGRESS_KEY) || {};
+};
+
+const setProgress = (entity: SyncEntity, progress: DownloadProgress | null): void => {
+  const all = getAllProgress();
+  if (progress) {
+    all[entity] = progress;
+  } else {
+    delete all[entity];
+  }
+  setLocalItem(DOWNLOAD_PROGRESS_KEY, JSON.stringify(all));
+};
+
+/**
+ * Where an unfinished download stopped, if it can still be resumed
+ */
+export const getDownloadProgress = (entity: SyncEntity, perPage: number): DownloadProgress | null => {
+  const progress = getAllProgress()[entity];
+  // Downloads saved before the query was recorded can't be resumed safely
+  if (!progress || !progress.params || progress.per_page !== perPage ||
+      Date.now() - progress.started_at > RESUME_WINDOW_MS) {
+    return null;
+  }
+  return progress;
+};
+
+const sameParams = (a: Record<string, string>, b: Record<string, string>): boolean => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+/**
+ * Fetch and save every page, resuming an unfinished download with the same query
+ * @returns The records saved over the whole download and the latest updated_at among them
+ */
+export const downloadAllPages = async <T>({
+  entity,
+  perPage,
+  params = {},
+  fetchPage,
+  savePage,
+  getUpdatedAt,
+  onProgress,
+}: PagedDownloadOptions<T>): Promise<PagedDownloadResult> => {
+  const unfinished = getDownloadProgress(entity, perPage);
+  const resumed = unfinished && sameParams(unfinished.params, params) ? unfinished : null;
+  if (resumed) {
+    console.log(`Resuming ${entity} download from page ${resumed.next_page} of ${resumed.last_page}`);
+  }
+
+  const startedAt = resumed?.started_at ?? Date.now();
+  let page = resumed?.next_page ?? 1;
+  let lastPage = resumed?.last_page ?? 1;
+  let count = resumed?.count ?? 0;
+  let maxUpdatedAt = resumed?.max_updated_at;
+
+  do {
+    const response = await fetchPage(page, perPage, params);
+    const items = response?.data || [];
+    await savePage(items, startedAt);
+    count += items.length;
+
+    if (getUpdatedAt) {
+      for (const item of items) {
+        // Server timestamps are 'YYYY-MM-DD HH:MM:SS', so they compare as strings
+        const updatedAt = getUpdatedAt(item);
+        if (updatedAt && (!maxUpdatedAt || updatedAt > maxUpdatedAt)) {
+          maxUpdatedAt = updatedAt;
+        }
+      }
+    }
+
+    // Without pagination metadata, a short page is the last one
+    lastPage = response?.meta?.last_page ?? (items.length < perPage ? page : page + 1);
+    setProgress(entity, {
+      next_page: page + 1,
+      last_page: lastPage,
+      per_page: perPage,
+      count,
+      started_at: startedAt,
+      params,
+      max_updated_at: maxUpdatedAt,
+    });
+    onProgress?.(page, lastPage);
+    page++;
+  } while (page <= lastPage);
+
+  setProgress(entity, null);
+  return { count, started_at: startedAt, max_updated_at: maxUpdatedAt };
+};
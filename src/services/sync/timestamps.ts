@@ -0,0 +1,74 @@
+import { getLocalItemAsJson, setLocalItem } from '@/lib/storage';
+import { SyncEntity } from './types';
+
+// When each kind of server data was last fetched
+export type SyncTimestamps = Partial<Record<SyncEntity, number>> & {
+  lastFullSync?: number;
+  // Latest server updated_at downloaded, so the next sync only asks for newer records
+  watermarks?: Partial<Record<SyncEntity, string>>;
+  // When local records were last checked against the server's full list
+  reconciled?: Partial<Record<SyncEntity, number>>;
+  // Extra query the last full download asked for - a different one means downloading everything again
+  queries?: Partial<Record<SyncEntity, string>>;
+};
+
+const SYNC_TIMESTAMPS_KEY = 'sync_timestamps';
+
+export const getSyncTimestamps = (): SyncTimestamps => {
+  return getLocalItemAsJson<SyncTimestamps>(SYNC_TIMESTAMPS_KEY) || {};
+};
+
+const saveSyncTimestamps = (timestamps: SyncTimestamps): void => {
+  setLocalItem(SYNC_TIMESTAMPS_KEY, JSON.stringify(timestamps));
+};
+
+export const updateSyncTimestamp = (entity: SyncEntity): void => {
+  const timestamps = getSyncTimestamps();
+  timestamps[entity] = Date.now();
+
+  // A full sync is when products, contacts and settings are all fresh
+  if ((entity === 'products' || entity === 'contacts' || entity === 'settings') &&
+      timestamps.products && timestamps.contacts && timestamps.settings) {
+    timestamps.lastFullSync = Date.now();
+  }
+
+  saveSyncTimestamps(timestamps);
+};
+
+// Check if data is older than the threshold, or was never fetched
+export const isStale = (entity: SyncEntity, thresholdHours: number): boolean => {
+  const timestamp = getSyncTimestamps()[entity];
+  if (!timestamp) return true;
+
+  return Date.now() - timestamp > thresholdHours * 60 * 60 * 1000;
+};
+
+export const getSyncWatermark = (entity: SyncEntity): string | null => {
+  return getSyncTimestamps().watermarks?.[entity] || null;
+};
+
+// Watermarks only move forward
+export const updateSyncWatermark = (entity: SyncEntity, updatedAt: string): void => {
+  const timestamps = getSyncTimestamps();
+  const current = timestamps.watermarks?.[entity];
+  if (current && current >= updatedAt) return;
+
+  timestamps.watermarks = { ...timestamps.watermarks, [entity]: updatedAt };
+  saveSyncTimestamps(timestamps);
+};
+
+export const markReconciled = (entity: SyncEntity, query = ''): void => {
+  const timestamps = getSyncTimestamps();
+  timestamps.reconciled = { ...timestamps.reconciled, [entity]: Date.now() };
+  timestamps.queries = { ...timestamps.queries, [entity]: query };
+  saveSyncTimestamps(timestamps);
+};
+
+// Check if local records are due to be compared with the server's full list
+export const isReconcileDue = (entity: SyncEntity, thresholdHours: number, query = ''): boolean => {
+  const timestamps = getSyncTimestamps();
+  const timestamp = timestamps.reconciled?.[entity];
+  if (!timestamp || (timestamps.queries?.[entity] || '') !== query) return true;
+
+  return Date.now() - timestamp > thresholdHours * 60 * 60 * 1000;
+};
@@ -0,0 +1,69 @@
+import type { Customer } from '@/context/CustomerContext';
+import type { QueuedOperation } from '@/services/syncQueue';
+
+// Kinds of data the sync engine keeps in step with the server
+export type SyncEntity =
+  | 'customers'
+  | 'sales'
+  | 'payments'
+  | 'returns'
+  | 'held_carts'
+  // Quotations and drafts completed as sales, deleted on the server
+  | 'quotations'
+  | 'queue'
+  | 'products'
+  // Stock figures of every product, refreshed on their own schedule
+  | 'stock'
+  | 'tax_rates'
+  | 'customer_groups'
+  | 'contacts'
+  | 'receivables'
+  | 'settings';
+
+// What started a sync pass
+export type SyncReason = 'background' | 'manual' | 'login';
+
+export interface SyncContext {
+  reason: SyncReason;
+  // Ignore freshness thresholds and refresh everything
+  force: boolean;
+  showToast: boolean;
+  // For adapters that work in steps, e.g. pages of a download
+  reportProgress(entity: SyncEntity, completed: number, total: number): void;
+}
+
+// Options a caller can set when starting a pass
+export type SyncOptions = Partial<Omit<SyncContext, 'reportProgress'>> & {
+  // Run only these adapters, e.g. to refresh customers
+  entities?: SyncEntity[];
+};
+
+export interface SyncAdapter {
+  entity: SyncEntity;
+  // Push adapters send local changes and run before pull adapters fetch server data,
+  // so pulled stock and balances already include them
+  direction: 'push' | 'pull';
+  // Shown when the adapter fails and the pass was asked to show toasts
+  failureMessage?: string;
+  // Whether the adapter has work to do in this pass, e.g. its data is stale
+  isDue(context: SyncContext): boolean;
+  // Returns the number of records sent or received
+  run(context: SyncContext): Promise<number>;
+}
+
+// Handles one queued operation of a type and updates its status
+export type OperationHandler = (operation: QueuedOperation) => Promise<void>;
+
+export type SyncEvent =
+  | { type: 'sync_started'; reason: SyncReason }
+  | { type: 'sync_skipped'; reason: SyncReason; cause: 'offline' | 'busy' }
+  | { type: 'adapter_progress'; entity: SyncEntity; completed: number; total: number }
+  | { type: 'adapter_completed'; entity: SyncEntity; count: number }
+  | { type: 'adapter_skipped'; entity: SyncEntity }
+  | { type: 'adapter_failed'; entity: SyncEntity; error: string }
+  | { type: 'sync_completed'; reason: SyncReason; failed: SyncEntity[] }
+  | { type: 'sync_failed'; reason: SyncReason; error: string }
+  // A customer added at the till was uploaded and now has its server ID
+  | { type: 'contact_replaced'; temporary_id: number; contact: Customer };
+
+export type SyncEventListener = (event: SyncEvent) => void;
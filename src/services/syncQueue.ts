@@ -8,7 +8,14 @@ import { toast } from 'sonner';
 import { getLocalItemAsJson, setLocalItem } from '@/lib/storage';
 
 // Define operation types that can be queued
-export type QueueableOperationType = 'sale' | 'customer' | 'attendance';
+export type QueueableOperationType =
+  | 'sale'
+  | 'sale_return'
+  | 'customer'
+  | 'customer_payment'
+  | 'suspended_sale_delete'
+  | 'quotation_close'
+  | 'attendance';
 
 export interface QueuedOperation {
   id: string;
@@ -41,10 +48,14 @@ export const initSyncQueueDB = async () => {
   });
 };
 
-// Add an operation to the queue
-export const queueOperation = async (type: QueueableOperationType, data: any): Promise<string> => {
+// Add an operation to the queue. Passing an id makes queueing idempotent: if an
+// operation with that id exists it is kept as it is, attempts and all.
+export const queueOperation = async (type: QueueableOperationType, data: any, id?: string): Promise<string> => {
   const db = await initSyncQueueDB();
-  const id = `${type}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  if (id && await db.get(QUEUE_STORE_NAME, id)) {
+    return id;
+  }
+  id = id || `${type}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   
   const operation: QueuedOperation = {
     id,
@@ -59,6 +70,53 @@ export const queueOperation = async (type: QueueableOperationType, data: any): P
   return id;
 };
 
+/**
+ * Mark an operation as being processed, queueing it first if it isn't queued. The read and
+ * the claim happen in one transaction, so two sync passes can't both claim it.
+ * @returns The operation as it was before the claim, or null if it is already being
+ * processed and that started less than processingTimeoutMs ago
+ */
+export const claimOperation = async (
+  type: QueueableOperationType,
+  data: QueuedOperation['data'],
+  id: string,
+  processingTimeoutMs: number
+): Promise<QueuedOperation | null> => {
+  const db = await initSyncQueueDB();
+  const tx = db.transaction(QUEUE_STORE_NAME, 'readwrite');
+  const existing: QueuedOperation | undefined = await tx.store.get(id);
+  const now = new Date();
+
+  if (existing?.status === 'processing' && existing.lastAttempt &&
+      now.getTime() - new Date(existing.lastAttempt).getTime() < processingTimeoutMs) {
+    await tx.done;
+    return null;
+  }
+
+  const operation: QueuedOperation = existing || {
+    id,
+    type,
+    data,
+    createdAt: now.toISOString(),
+    attempts: 0,
+    status: 'pending',
+  };
+  await tx.store.put({
+    ...operation,
+    status: 'processing',
+    attempts: operation.attempts + 1,
+    lastAttempt: now.toISOString(),
+  });
+  await tx.done;
+  return operation;
+};
+
+// Get a single operation
+export const getOperation = async (id: string): Promise<QueuedOperation | undefined> => {
+  const db = await initSyncQueueDB();
+  return db.get(QUEUE_STORE_NAME, id);
+};
+
 // Get operations by status
 export const getOperationsByStatus = async (status: QueuedOperation['status']): Promise<QueuedOperation[]> => {
   const db = await initSyncQueueDB();
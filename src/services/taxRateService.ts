@@ -0,0 +1,61 @@
+import { fetchTaxRates } from '@/services/api';
+import { getTaxRatesFromStorage, saveTaxRates } from '@/lib/storage';
+
+export interface TaxRate {
+  id: number;
+  name: string;
+  // Percentage, e.g. 15 for 15%
+  amount: number;
+  is_tax_group?: number;
+  for_tax_group?: number;
+}
+
+// Tax rate as returned by the API
+interface ApiTaxRate {
+  id: number;
+  name: string;
+  amount: string | number;
+  is_tax_group?: number | boolean;
+  for_tax_group?: number | boolean;
+}
+
+// Normalise a tax rate from the API, which returns amount as a string
+const transformTaxRate = (apiData: ApiTaxRate): TaxRate => ({
+  id: apiData.id,
+  name: apiData.name,
+  amount: parseFloat(String(apiData.amount)) || 0,
+  is_tax_group: apiData.is_tax_group ? 1 : 0,
+  for_tax_group: apiData.for_tax_group ? 1 : 0,
+});
+
+/**
+ * Download tax rates from the ERP and replace the offline copy
+ */
+export const syncTaxRates = async (): Promise<TaxRate[]> => {
+  const response = await fetchTaxRates();
+  const taxRates: TaxRate[] = (response?.data || []).map(transformTaxRate);
+  await saveTaxRates(taxRates);
+  return taxRates;
+};
+
+/**
+ * Get the tax rates that can be applied to a sale.
+ * Uses the offline copy, downloading it first if there is none yet and we're online.
+ * Rates that only exist as members of a tax group are left out.
+ */
+export const getTaxRates = async (forceRefresh = false): Promise<TaxRate[]> => {
+  try {
+    let taxRates: TaxRate[] = forceRefresh ? [] : await getTaxRatesFromStorage();
+
+    if (taxRates.length === 0 && navigator.onLine) {
+      taxRates = await syncTaxRates();
+    }
+
+    return taxRates
+      .filter(taxRate => !taxRate.for_tax_group)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting tax rates:', error);
+    return [];
+  }
+};
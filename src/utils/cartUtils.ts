@@ -0,0 +1,69 @@
+import type { CartItem, CartState } from '@/context/CartContext';
+import { roundToPrecision } from '@/utils/paymentUtils';
+import { calculateCartTaxes, calculateLineTaxes, CartTaxSummary } from '@/utils/taxUtils';
+
+export type DiscountType = 'fixed' | 'percentage';
+
+/**
+ * Discount taken off one unit of a cart line.
+ * A fixed discount is an amount per unit; a percentage discount is a share of the unit price.
+ * Never more than the unit price, so a line can't go negative.
+ */
+export const getUnitDiscount = (item: Pick<CartItem, 'price' | 'discount' | 'discount_type'>): number => {
+  if (!item.discount || item.discount <= 0) {
+    return 0;
+  }
+
+  const discount = item.discount_type === 'percentage'
+    ? item.price * Math.min(item.discount, 100) / 100
+    : item.discount;
+
+  return Math.min(discount, item.price);
+};
+
+type LineAmounts = Pick<CartItem, 'price' | 'quantity' | 'discount' | 'discount_type' | 'tax_percent' | 'tax_type'>;
+
+/**
+ * Total of a cart line after its discount, including tax
+ */
+export const calculateLineTotal = (item: LineAmounts): number => {
+  return calculateLineTaxes({ ...item, unit_discount: getUnitDiscount(item) }).gross;
+};
+
+/**
+ * Tax on a cart line after its discount - extracted from an inclusive price or added to an exclusive one
+ */
+export const calculateLineTax = (item: LineAmounts): number => {
+  return calculateLineTaxes({ ...item, unit_discount: getUnitDiscount(item) }).tax;
+};
+
+/**
+ * Total discount given on a cart line
+ */
+export const getLineDiscountTotal = (item: CartItem): number => {
+  return roundToPrecision(getUnitDiscount(item) * item.quantity, 4);
+};
+
+/**
+ * Whether the cashier changed the line's unit price from the catalogue price
+ */
+export const isPriceOverridden = (item: CartItem): boolean => {
+  return item.original_price !== undefined && item.original_price !== item.price;
+};
+
+/**
+ * Recompute a line's stored total and tax after any change to it
+ */
+export const applyLineTotals = (item: CartItem): CartItem => {
+  const { tax, gross } = calculateLineTaxes({ ...item, unit_discount: getUnitDiscount(item) });
+  return { ...item, total: gross, tax };
+};
+
+export type CartTotals = CartTaxSummary;
+
+/**
+ * Totals for a cart, rounded to the business currency precision
+ */
+export const calculateCartTotals = (cart: CartState, precision = 2): CartTotals => {
+  return calculateCartTaxes(cart, precision);
+};
@@ -0,0 +1,92 @@
+import { BusinessSettings } from '@/lib/businessSettings';
+import { roundToPrecision } from '@/utils/paymentUtils';
+
+// Fallback note/coin values when the ERP does not define cash denominations
+const DEFAULT_DENOMINATIONS = [1, 5, 10, 20, 50, 100, 200, 500];
+const MAX_QUICK_AMOUNTS = 6;
+
+/**
+ * Get the rounding step configured in pos_settings.amount_rounding_method.
+ * The ERP stores it as a string such as '1', '0.5', '0.1' or '0.05';
+ * an empty or missing value means no rounding.
+ */
+export const getRoundingStep = (settings: BusinessSettings | null): number | null => {
+  const method = settings?.pos_settings?.amount_rounding_method;
+  const step = method ? parseFloat(method) : NaN;
+  return step > 0 ? step : null;
+};
+
+/**
+ * Round a cash amount to the nearest rounding step, then to currency precision
+ */
+export const roundCashAmount = (amount: number, settings: BusinessSettings | null): number => {
+  const precision = settings?.currency_precision ?? 2;
+  const step = getRoundingStep(settings);
+
+  if (!step) {
+    return roundToPrecision(amount, precision);
+  }
+
+  return roundToPrecision(Math.round(amount / step) * step, precision);
+};
+
+/**
+ * Get the note and coin values for the business currency, smallest first.
+ * pos_settings.cash_denominations is a comma separated list in the ERP.
+ */
+export const getCashDenominations = (settings: BusinessSettings | null): number[] => {
+  const configured = settings?.pos_settings?.cash_denominations;
+
+  const values = typeof configured === 'string'
+    ? configured.split(',').map(value => parseFloat(value.trim()))
+    : Array.isArray(configured)
+      ? configured.map(value => parseFloat(value))
+      : [];
+
+  const denominations = values.filter(value => value > 0);
+  return (denominations.length > 0 ? denominations : DEFAULT_DENOMINATIONS).sort((a, b) => a - b);
+};
+
+/**
+ * Build the quick tender buttons for an amount due:
+ * the exact amount, the next round note and the common notes above it
+ */
+export const getQuickCashAmounts = (due: number, settings: BusinessSettings | null): number[] => {
+  const precision = settings?.currency_precision ?? 2;
+  const exact = roundCashAmount(due, settings);
+  const denominations = getCashDenominations(settings);
+  const amounts = [exact];
+
+  if (exact <= 0) {
+    return amounts;
+  }
+
+  // Next round note: the smallest multiple of a denomination that covers the amount
+  const roundUps = denominations
+    .map(note => roundToPrecision(Math.ceil(exact / note) * note, precision))
+    .filter(value => value > exact);
+  if (roundUps.length > 0) {
+    amounts.push(Math.min(...roundUps));
+  }
+
+  // Common notes the customer may hand over
+  denominations
+    .filter(note => note > exact)
+    .forEach(note => amounts.push(note));
+
+  return Array.from(new Set(amounts))
+    .sort((a, b) => a - b)
+    .slice(0, MAX_QUICK_AMOUNTS);
+};
+
+/**
+ * Change due to the customer for a cash tender (never negative)
+ */
+export const calculateChange = (
+  tendered: number,
+  due: number,
+  settings: BusinessSettings | null
+): number => {
+  const precision = settings?.currency_precision ?? 2;
+  return Math.max(0, roundToPrecision(tendered - due, precision));
+};
@@ -0,0 +1,243 @@
+/**
+ * ESC/POS byte stream builder for Epson-compatible thermal printers.
+ * Calls chain and are collected into a single Uint8Array with encode().
+ */
+import {
+  CodePageName,
+  DEFAULT_CODE_PAGE_NUMBERS,
+  encodeText,
+  getCodePageForText,
+} from '@/utils/escposEncoding';
+import { MonochromeRaster } from '@/utils/escposImage';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type EscPosAlign = 'left' | 'center' | 'right';
+
+export type EscPosBarcodeType =
+  | 'UPC-A'
+  | 'UPC-E'
+  | 'EAN13'
+  | 'EAN8'
+  | 'CODE39'
+  | 'ITF'
+  | 'CODABAR'
+  | 'CODE93'
+  | 'CODE128';
+
+// GS k function B barcode system numbers
+const BARCODE_TYPES: Record<EscPosBarcodeType, number> = {
+  'UPC-A': 65,
+  'UPC-E': 66,
+  EAN13: 67,
+  EAN8: 68,
+  CODE39: 69,
+  ITF: 70,
+  CODABAR: 71,
+  CODE93: 72,
+  CODE128: 73,
+};
+
+const ALIGNMENTS: Record<EscPosAlign, number> = { left: 0, center: 1, right: 2 };
+
+// QR error correction levels for GS ( k function 169
+const QR_ERROR_LEVELS = { L: 48, M: 49, Q: 50, H: 51 };
+
+export interface EscPosOptions {
+  // Characters per line in the default font - 32 on 58mm paper, 48 on 80mm
+  columns?: number;
+  // ESC t numbers for this printer, where they differ from the common defaults
+  codePages?: Partial<Record<CodePageName, number>>;
+}
+
+export interface EscPosBuilder {
+  columns: number;
+  initialize(): EscPosBuilder;
+  raw(bytes: ArrayLike<number>): EscPosBuilder;
+  codePage(codePage: CodePageName): EscPosBuilder;
+  text(text: string): EscPosBuilder;
+  line(text?: string): EscPosBuilder;
+  // Left and right text on one line, e.g. a label and an amount
+  columnsLine(left: string, right: string): EscPosBuilder;
+  divider(char?: string): EscPosBuilder;
+  newline(lines?: number): EscPosBuilder;
+  feed(lines: number): EscPosBuilder;
+  align(align: EscPosAlign): EscPosBuilder;
+  bold(on?: boolean): EscPosBuilder;
+  underline(mode?: 0 | 1 | 2): EscPosBuilder;
+  invert(on?: boolean): EscPosBuilder;
+  // Character size multiplier, 1-8 in each direction
+  size(width?: number, height?: number): EscPosBuilder;
+  barcode(data: string, type?: EscPosBarcodeType, options?: { height?: number; width?: number; showText?: boolean }): EscPosBuilder;
+  qrcode(data: string, options?: { size?: number; errorLevel?: keyof typeof QR_ERROR_LEVELS }): EscPosBuilder;
+  image(raster: MonochromeRaster): EscPosBuilder;
+  // Pulse the cash drawer connected to pin 2 (or pin 5)
+  openCashDrawer(pin?: 2 | 5): EscPosBuilder;
+  cut(partial?: boolean): EscPosBuilder;
+  encode(): Uint8Array;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+// Display width of text, ignoring Arabic combining marks which take no column
+const textWidth = (text: string): number => text.replace(/[\u064B-\u0652]/g, '').length;
+
+/**
+ * Create an ESC/POS builder. Text switches code page automatically, so Arabic and
+ * Latin text can be mixed on one receipt.
+ */
+export const createEscPosBuilder = (options: EscPosOptions = {}): EscPosBuilder => {
+  const codePageNumbers = { ...DEFAULT_CODE_PAGE_NUMBERS, ...(options.codePages || {}) };
+  const bytes: number[] = [];
+  let activeCodePage: CodePageName | null = null;
+
+  const push = (...values: number[]) => {
+    values.forEach(value => bytes.push(value));
+  };
+
+  const pushAll = (values: ArrayLike<number>) => {
+    for (let i = 0; i < values.length; i++) {
+      bytes.push(values[i]);
+    }
+  };
+
+  const builder: EscPosBuilder = {
+    columns: options.columns ?? 48,
+
+    initialize() {
+      push(ESC, 0x40);
+      activeCodePage = null;
+      return builder;
+    },
+
+    raw(values) {
+      pushAll(values);
+      return builder;
+    },
+
+    codePage(codePage) {
+      if (activeCodePage !== codePage) {
+        push(ESC, 0x74, codePageNumbers[codePage]);
+        activeCodePage = codePage;
+      }
+      return builder;
+    },
+
+    text(text) {
+      builder.codePage(getCodePageForText(text));
+      pushAll(encodeText(text, activeCodePage));
+      return builder;
+    },
+
+    line(text = '') {
+      if (text) {
+        builder.text(text);
+      }
+      push(LF);
+      return builder;
+    },
+
+    columnsLine(left, right) {
+      const space = builder.columns - textWidth(left) - textWidth(right);
+      if (space >= 1) {
+        return builder.line(`${left}${' '.repeat(space)}${right}`);
+      }
+      // Too long for one line - right text goes on its own line
+      return builder.line(left).line(`${' '.repeat(Math.max(0, builder.columns - textWidth(right)))}${right}`);
+    },
+
+    divider(char = '-') {
+      return builder.line(char.repeat(builder.columns));
+    },
+
+    newline(lines = 1) {
+      for (let i = 0; i < lines; i++) {
+        push(LF);
+      }
+      return builder;
+    },
+
+    feed(lines) {
+      push(ESC, 0x64, clamp(lines, 0, 255));
+      return builder;
+    },
+
+    align(align) {
+      push(ESC, 0x61, ALIGNMENTS[align]);
+      return builder;
+    },
+
+    bold(on = true) {
+      push(ESC, 0x45, on ? 1 : 0);
+      return builder;
+    },
+
+    underline(mode = 1) {
+      push(ESC, 0x2d, mode);
+      return builder;
+    },
+
+    invert(on = true) {
+      push(GS, 0x42, on ? 1 : 0);
+      return builder;
+    },
+
+    size(width = 1, height = 1) {
+      push(GS, 0x21, ((clamp(width, 1, 8) - 1) << 4) | (clamp(height, 1, 8) - 1));
+      return builder;
+    },
+
+    barcode(data, type = 'CODE128', barcodeOptions = {}) {
+      // CODE128 needs a code set; set B covers printable ASCII
+      const payload = type === 'CODE128' && !data.startsWith('{') ? `{B${data}` : data;
+      const encoded = encodeText(payload, 'cp1252');
+
+      push(GS, 0x68, clamp(barcodeOptions.height ?? 80, 1, 255));
+      push(GS, 0x77, clamp(barcodeOptions.width ?? 2, 2, 6));
+      push(GS, 0x48, barcodeOptions.showText === false ? 0 : 2);
+      push(GS, 0x6b, BARCODE_TYPES[type], encoded.length);
+      pushAll(encoded);
+      return builder;
+    },
+
+    qrcode(data, qrOptions = {}) {
+      const encoded = new TextEncoder().encode(data);
+      const storeLength = encoded.length + 3;
+
+      // Model 2, module size, error correction, store the data, then print it
+      push(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0);
+      push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, clamp(qrOptions.size ?? 6, 1, 16));
+      push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, QR_ERROR_LEVELS[qrOptions.errorLevel ?? 'M']);
+      push(GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30);
+      pushAll(encoded);
+      push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+      return builder;
+    },
+
+    image(raster) {
+      const widthBytes = raster.width / 8;
+      push(GS, 0x76, 0x30, 0, widthBytes & 0xff, widthBytes >> 8, raster.height & 0xff, raster.height >> 8);
+      pushAll(raster.data);
+      return builder;
+    },
+
+    openCashDrawer(pin = 2) {
+      push(ESC, 0x70, pin === 5 ? 1 : 0, 0x19, 0xfa);
+      return builder;
+    },
+
+    cut(partial = true) {
+      // Feed past the cutter, then cut
+      push(GS, 0x56, partial ? 66 : 65, 3);
+      return builder;
+    },
+
+    encode() {
+      return Uint8Array.from(bytes);
+    },
+  };
+
+  return builder;
+};
@@ -0,0 +1,91 @@
+/**
+ * Single-byte code pages for thermal printers. Printers don't understand UTF-8, so text
+ * is encoded into the code page selected with ESC t: Windows-1252 for Latin text and
+ * Windows-1256 for Arabic. Characters a code page can't show are printed as '?'.
+ */
+
+export type CodePageName = 'cp1252' | 'cp1256';
+
+// ESC t numbers as used by most Epson-compatible printers. Some models number their
+// pages differently, so the builder lets these be overridden per printer.
+export const DEFAULT_CODE_PAGE_NUMBERS: Record<CodePageName, number> = {
+  cp1252: 16,
+  cp1256: 50,
+};
+
+const REPLACEMENT = 0x3f; // '?'
+
+// Windows-1252 characters in 0x80-0x9F; 0xA0-0xFF match Latin-1
+const CP1252_HIGH: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86,
+  0x2021: 0x87, 0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c,
+  0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95,
+  0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b,
+  0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+// Arabic letters, marks and punctuation in Windows-1256
+const CP1256_ARABIC: Record<number, number> = {
+  0x060c: 0xa1, 0x061b: 0xba, 0x061f: 0xbf,
+  0x0621: 0xc1, 0x0622: 0xc2, 0x0623: 0xc3, 0x0624: 0xc4, 0x0625: 0xc5, 0x0626: 0xc6,
+  0x0627: 0xc7, 0x0628: 0xc8, 0x0629: 0xc9, 0x062a: 0xca, 0x062b: 0xcb, 0x062c: 0xcc,
+  0x062d: 0xcd, 0x062e: 0xce, 0x062f: 0xcf, 0x0630: 0xd0, 0x0631: 0xd1, 0x0632: 0xd2,
+  0x0633: 0xd3, 0x0634: 0xd4, 0x0635: 0xd5, 0x0636: 0xd6, 0x0637: 0xd8, 0x0638: 0xd9,
+  0x0639: 0xda, 0x063a: 0xdb, 0x0640: 0xdc, 0x0641: 0xdd, 0x0642: 0xde, 0x0643: 0xdf,
+  0x0644: 0xe1, 0x0645: 0xe3, 0x0646: 0xe4, 0x0647: 0xe5, 0x0648: 0xe6, 0x0649: 0xec,
+  0x064a: 0xed, 0x064b: 0xf0, 0x064c: 0xf1, 0x064d: 0xf2, 0x064e: 0xf3, 0x064f: 0xf5,
+  0x0650: 0xf6, 0x0651: 0xf8, 0x0652: 0xfa,
+  0x067e: 0x81, 0x0686: 0x8d, 0x0698: 0x8e, 0x0688: 0x8f, 0x06af: 0x90, 0x06a9: 0x98,
+  0x06be: 0xaa, 0x06c1: 0xc0, 0x06d2: 0xff,
+  0x20ac: 0x80,
+};
+
+// Latin-1 characters that keep their place in Windows-1256
+const CP1256_LATIN = [
+  0xa0, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xab, 0xac, 0xad, 0xae, 0xaf,
+  0xb0, 0xb1, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xbb, 0xbc, 0xbd, 0xbe,
+  0xd7, 0xe0, 0xe2, 0xe7, 0xe8, 0xe9, 0xea, 0xeb, 0xee, 0xef, 0xf4, 0xf7, 0xf9, 0xfb, 0xfc,
+];
+
+const encodeCp1252 = (codePoint: number): number => {
+  if (codePoint >= 0xa0 && codePoint <= 0xff) {
+    return codePoint;
+  }
+  return CP1252_HIGH[codePoint] ?? REPLACEMENT;
+};
+
+const encodeCp1256 = (codePoint: number): number => {
+  // Arabic-Indic digits print as Western digits
+  if (codePoint >= 0x0660 && codePoint <= 0x0669) {
+    return 0x30 + codePoint - 0x0660;
+  }
+  if (CP1256_LATIN.includes(codePoint)) {
+    return codePoint;
+  }
+  return CP1256_ARABIC[codePoint] ?? REPLACEMENT;
+};
+
+/**
+ * Encode text into the bytes of a code page
+ */
+export const encodeText = (text: string, codePage: CodePageName): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) ?? REPLACEMENT;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else {
+      bytes.push(codePage === 'cp1256' ? encodeCp1256(codePoint) : encodeCp1252(codePoint));
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+export const containsArabic = (text: string): boolean => /[\u0600-\u06FF]/.test(text);
+
+/**
+ * The code page that can print a piece of text
+ */
+export const getCodePageForText = (text: string): CodePageName => {
+  return containsArabic(text) ? 'cp1256' : 'cp1252';
+};
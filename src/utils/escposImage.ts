@@ -0,0 +1,106 @@
+/**
+ * Monochrome bitmaps for ESC/POS raster printing (GS v 0). Each row is packed into
+ * bytes, 8 dots per byte with the most significant bit on the left; a set bit prints black.
+ */
+import { containsArabic } from '@/utils/escposEncoding';
+
+export interface MonochromeRaster {
+  // Width in dots - always a multiple of 8
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Pixels as returned by CanvasRenderingContext2D.getImageData
+interface RgbaPixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Threshold RGBA pixels to a packed monochrome raster.
+ * Transparent pixels count as white so logos with alpha print cleanly.
+ */
+export const toMonochromeRaster = (pixels: RgbaPixels, threshold = 128): MonochromeRaster => {
+  const widthBytes = Math.ceil(pixels.width / 8);
+  const data = new Uint8Array(widthBytes * pixels.height);
+
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      const offset = (y * pixels.width + x) * 4;
+      const alpha = pixels.data[offset + 3] / 255;
+      // Perceived brightness, blended over white
+      const luminance =
+        (0.299 * pixels.data[offset] + 0.587 * pixels.data[offset + 1] + 0.114 * pixels.data[offset + 2]) * alpha +
+        255 * (1 - alpha);
+      if (luminance < threshold) {
+        data[y * widthBytes + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  return { width: widthBytes * 8, height: pixels.height, data };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  return { canvas, context };
+};
+
+/**
+ * Load an image (e.g. the business logo) and scale it down to fit the paper
+ */
+export const loadImageRaster = (src: string, maxWidth: number): Promise<MonochromeRaster> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      try {
+        const scale = Math.min(1, maxWidth / image.width);
+        const width = Math.max(1, Math.round(image.width * scale));
+        const height = Math.max(1, Math.round(image.height * scale));
+        const { context } = createCanvas(width, height);
+        context.drawImage(image, 0, 0, width, height);
+        resolve(toMonochromeRaster(context.getImageData(0, 0, width, height)));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    image.onerror = () => reject(new Error(`Failed to load image ${src}`));
+    image.src = src;
+  });
+};
+
+/**
+ * Draw a line of text as a bitmap. The browser shapes and orders Arabic correctly,
+ * which printers without Arabic support can't do with text commands.
+ */
+export const renderTextRaster = (
+  text: string,
+  width: number,
+  options: { fontSize?: number; bold?: boolean; align?: 'left' | 'center' | 'right' } = {}
+): MonochromeRaster => {
+  const fontSize = options.fontSize ?? 24;
+  const height = Math.ceil(fontSize * 1.3);
+  const { context } = createCanvas(width, height);
+
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, width, height);
+  context.fillStyle = '#000';
+  context.font = `${options.bold ? 'bold ' : ''}${fontSize}px sans-serif`;
+  context.textBaseline = 'middle';
+  context.direction = containsArabic(text) ? 'rtl' : 'ltr';
+  context.textAlign = options.align || (context.direction === 'rtl' ? 'right' : 'left');
+
+  const x = context.textAlign === 'center' ? width / 2 : context.textAlign === 'right' ? width : 0;
+  context.fillText(text, x, height / 2, width);
+
+  return toMonochromeRaster(context.getImageData(0, 0, width, height));
+};
@@ -0,0 +1,169 @@
+/**
+ * Receipts as raw ESC/POS bytes for thermal printers. Uses the same receipt data as
+ * the HTML receipt, laid out in fixed-width columns.
+ */
+import { BusinessSettings } from '@/lib/businessSettings';
+import { ReceiptPaperSize, ReceiptSettings } from '@/lib/receiptSettings';
+import { createEscPosBuilder, EscPosAlign, EscPosBuilder, EscPosOptions } from '@/utils/escposBuilder';
+import { containsArabic } from '@/utils/escposEncoding';
+import { MonochromeRaster, renderTextRaster } from '@/utils/escposImage';
+import { formatCurrencySync } from '@/utils/formatting';
+import { ReceiptData } from '@/utils/receiptUtils';
+
+// Characters per line and printable dots per line for each roll width.
+// A4 has no thermal equivalent, so it prints as 80mm.
+const PAPER_LAYOUTS: Record<ReceiptPaperSize, { columns: number; dots: number }> = {
+  '58mm': { columns: 32, dots: 384 },
+  '80mm': { columns: 48, dots: 576 },
+  A4: { columns: 48, dots: 576 },
+};
+
+export interface EscPosReceiptExtras {
+  // Business logo, already scaled to the paper width
+  logo?: MonochromeRaster;
+  // Printed as a QR code below the totals, in place of the receipt's e-invoice QR
+  qrData?: string;
+  openDrawer?: boolean;
+  // Print Arabic lines as bitmaps, for printers without Arabic shaping
+  arabicAsImage?: boolean;
+  codePages?: EscPosOptions['codePages'];
+}
+
+/**
+ * Dot width of the printable area for a paper size
+ */
+export const getPaperDots = (paperSize: ReceiptPaperSize): number => {
+  return (PAPER_LAYOUTS[paperSize] || PAPER_LAYOUTS['80mm']).dots;
+};
+
+/**
+ * Encode a receipt as an ESC/POS byte stream
+ */
+export const buildEscPosReceipt = (
+  receipt: ReceiptData,
+  options: Pick<ReceiptSettings, 'paper_size' | 'header_text' | 'footer_text' | 'show_tax_breakdown'>,
+  settings: BusinessSettings | null,
+  extras: EscPosReceiptExtras = {}
+): Uint8Array => {
+  const layout = PAPER_LAYOUTS[options.paper_size] || PAPER_LAYOUTS['80mm'];
+  const precision = settings?.currency_precision ?? 2;
+  const formatPrice = (amount: number) => settings ? formatCurrencySync(amount, settings) : amount.toFixed(precision);
+
+  const printer = createEscPosBuilder({ columns: layout.columns, codePages: extras.codePages });
+
+  // A full line of text, drawn as a bitmap when it contains Arabic and the printer can't shape it
+  const printLine = (text: string, align: EscPosAlign = 'left', bold = false): EscPosBuilder => {
+    if (extras.arabicAsImage && containsArabic(text)) {
+      return printer.align('left').image(renderTextRaster(text, layout.dots, { bold, align }));
+    }
+    return printer.align(align).bold(bold).line(text).bold(false);
+  };
+
+  // Label and amount row; Arabic labels go on their own line so the amount stays aligned
+  const printRow = (label: string, value: string): EscPosBuilder => {
+    if (extras.arabicAsImage && containsArabic(label)) {
+      return printLine(label).align('right').line(value);
+    }
+    return printer.align('left').columnsLine(label, value);
+  };
+
+  printer.initialize();
+
+  if (extras.logo) {
+    printer.align('center').image(extras.logo);
+  }
+
+  printer.size(2, 2);
+  printLine(receipt.business_name, 'center', true);
+  printer.size(1, 1);
+  if (receipt.location_name) {
+    printLine(receipt.location_name, 'center');
+  }
+  if (receipt.location_address) {
+    printLine(receipt.location_address, 'center');
+  }
+  if (receipt.vat_number) {
+    printLine(`${receipt.vat_label}: ${receipt.vat_number}`, 'center');
+  }
+  if (options.header_text) {
+    printLine(options.header_text, 'center');
+  }
+  if (receipt.qr_data) {
+    printLine('Simplified Tax Invoice', 'center', true);
+  }
+
+  printer.align('left').divider();
+  printRow('Invoice', receipt.invoice_no);
+  printRow('Date', new Date(receipt.date).toLocaleString());
+  if (receipt.customer_name) {
+    printRow('Customer', receipt.customer_name);
+  }
+
+  printer.divider();
+  receipt.lines.forEach(line => {
+    printLine(line.name);
+    printRow(`  ${line.quantity} x ${formatPrice(line.unit_price)}`, formatPrice(line.total));
+    if (line.note) {
+      printLine(`  ${line.note}`);
+    }
+  });
+
+  printer.divider();
+  printRow('Subtotal', formatPrice(receipt.subtotal));
+  if (receipt.discount) {
+    printRow('Discount', `-${formatPrice(receipt.discount)}`);
+  }
+  if (receipt.order_tax) {
+    printRow('Order tax', formatPrice(receipt.order_tax));
+  }
+  if (receipt.round_off) {
+    printRow('Round off', formatPrice(receipt.round_off));
+  }
+  printer.bold().size(1, 2);
+  printRow('Total', formatPrice(receipt.total));
+  printer.size(1, 1).bold(false);
+
+  if (options.show_tax_breakdown && receipt.tax_breakdown.length > 0) {
+    printer.divider();
+    receipt.tax_breakdown.forEach(entry => {
+      printRow(`${entry.name} (${entry.percent}%) on ${formatPrice(entry.taxable_amount)}`, formatPrice(entry.tax_amount));
+    });
+  }
+
+  if (receipt.payments.length > 0 || receipt.cash_tendered || receipt.change_return || receipt.credit_amount) {
+    printer.divider();
+    receipt.payments.forEach(payment => printRow(payment.label, formatPrice(payment.amount)));
+    if (receipt.cash_tendered) {
+      printRow('Cash tendered', formatPrice(receipt.cash_tendered));
+    }
+    if (receipt.change_return) {
+      printRow('Change', formatPrice(receipt.change_return));
+    }
+    if (receipt.credit_amount) {
+      printRow('On account', formatPrice(receipt.credit_amount));
+    }
+  }
+
+  if (receipt.note) {
+    printer.divider();
+    printLine(receipt.note);
+  }
+
+  const qrData = extras.qrData || receipt.qr_data;
+  if (qrData) {
+    printer.newline().align('center').qrcode(qrData);
+  }
+
+  if (options.footer_text) {
+    printer.newline();
+    printLine(options.footer_text, 'center');
+  }
+
+  printer.align('left').feed(4);
+  if (extras.openDrawer) {
+    printer.openCashDrawer();
+  }
+  printer.cut();
+
+  return printer.encode();
+};
@@ -0,0 +1,89 @@
+import { BusinessSettings } from '@/lib/businessSettings';
+import { SalePayment } from '@/services/api';
+
+export interface PaymentMethodOption {
+  value: string;
+  label: string;
+}
+
+// Payment methods understood by the ERP sell API
+export const STANDARD_PAYMENT_METHODS: PaymentMethodOption[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'other', label: 'Other' },
+];
+
+const CUSTOM_PAYMENT_KEYS = ['custom_pay_1', 'custom_pay_2', 'custom_pay_3'];
+
+// Pay later - left due on the customer's account, so it is never sent as a payment
+export const CREDIT_PAYMENT_METHOD = 'credit';
+
+/**
+ * Read the custom payment labels configured in the ERP.
+ * custom_labels may arrive either as an object or as a JSON string.
+ */
+const getCustomPaymentLabels = (settings: BusinessSettings | null): Record<string, string> => {
+  let customLabels = settings?.custom_labels;
+
+  if (typeof customLabels === 'string') {
+    try {
+      customLabels = JSON.parse(customLabels);
+    } catch (error) {
+      console.warn('Unable to parse custom labels from business settings:', error);
+      return {};
+    }
+  }
+
+  return customLabels?.payments || {};
+};
+
+/**
+ * Get all payment methods available at checkout, including the
+ * custom methods that have been given a label in the ERP
+ */
+export const getPaymentMethods = (settings: BusinessSettings | null): PaymentMethodOption[] => {
+  const customLabels = getCustomPaymentLabels(settings);
+
+  const customMethods = CUSTOM_PAYMENT_KEYS
+    .filter(key => customLabels[key])
+    .map(key => ({ value: key, label: customLabels[key] }));
+
+  return [...STANDARD_PAYMENT_METHODS, ...customMethods];
+};
+
+/**
+ * Get a display label for a payment method value
+ */
+export const getPaymentMethodLabel = (method: string, settings: BusinessSettings | null): string => {
+  const option = getPaymentMethods(settings).find(item => item.value === method);
+  return option?.label || method;
+};
+
+/**
+ * Round a monetary amount to the business currency precision
+ */
+export const roundToPrecision = (amount: number, precision: number = 2): number => {
+  const factor = Math.pow(10, precision);
+  return Math.round((amount + Number.EPSILON) * factor) / factor;
+};
+
+/**
+ * Sum all tender amounts
+ */
+export const getTenderedTotal = (payments: SalePayment[], precision: number = 2): number => {
+  const total = payments.reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0);
+  return roundToPrecision(total, precision);
+};
+
+/**
+ * Remaining balance after the given tenders (never negative)
+ */
+export const getRemainingBalance = (
+  total: number,
+  payments: SalePayment[],
+  precision: number = 2
+): number => {
+  return Math.max(0, roundToPrecision(total - getTenderedTotal(payments, precision), precision));
+};
@@ -0,0 +1,40 @@
+// Printing of generated HTML documents through the browser's print dialog
+
+/**
+ * Escape text for safe use inside generated HTML
+ */
+export const escapeHtml = (text: string | number | null | undefined): string => {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Print a complete HTML document from a hidden iframe, so the POS page itself is untouched
+ */
+export const printHtml = (html: string): void => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error('Unable to open print frame');
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+
+  // Remove the frame once the print dialog has closed
+  frameWindow.onafterprint = () => frame.remove();
+  frameWindow.focus();
+  frameWindow.print();
+};
@@ -1,7 +1,10 @@
 // src/utils/productUtils.ts
 import { getBusinessSettings, BusinessSettings } from '@/lib/businessSettings';
-import { getProducts, getProductsByCategory } from '@/lib/storage';
+import { getProduct, getProducts, getProductsByCategory, getProductsByCode, normalizeCode } from '@/lib/storage';
+import type { CartItem } from '@/context/CartContext';
+import type { CustomerPricing } from '@/services/customerGroupService';
 import { formatCurrencySync } from '@/utils/formatting';
+import type { TaxType } from '@/utils/taxUtils';
 
 // Standard product image placeholder
 export const PRODUCT_PLACEHOLDER_SVG = `data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='40' height='40' viewBox='0 0 24 24' fill='none' stroke='%23d1d5db' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3E%3Crect width='18' height='18' x='3' y='3' rx='2' ry='2'/%3E%3Cpath d='m9 9 6 6'/%3E%3Cpath d='m15 9-6 6'/%3E%3C/svg%3E`;
@@ -21,6 +24,53 @@ export interface ProductData {
   [key: string]: any;
 }
 
+// Variation as stored with a product from the API
+export interface ProductVariation {
+  id: number;
+  name?: string;
+  sub_sku?: string;
+  default_sell_price?: string;
+  sell_price_inc_tax?: string;
+  variation_location_details?: { location_id: number; qty_available: string }[];
+  // Prices set for selling price groups - price_inc_tax is a percentage of the default
+  // price when price_type is 'percentage'
+  selling_price_group?: { price_group_id: number; price_inc_tax: string | number; price_type?: string }[];
+}
+
+// UltimatePOS names the only variation of a single product 'DUMMY'
+const DEFAULT_VARIATION_NAME = 'DUMMY';
+
+// The parts of a stored product that pricing and scanning rely on
+export interface ProductRecord {
+  id: number;
+  name: string;
+  sku: string;
+  tax_type?: string;
+  enable_stock?: number;
+  product_tax?: { id: number; name: string; amount: string | number } | null;
+  product_variations?: { variations?: ProductVariation[] }[];
+}
+
+export interface ProductTaxInfo {
+  tax_rate_id: number | null;
+  tax_name?: string;
+  tax_percent: number;
+  tax_type: TaxType;
+  // Price to put in the cart - inclusive or exclusive of tax to match tax_type
+  cart_price: number;
+  // Whether a customer group changed the price
+  group_priced: boolean;
+}
+
+// A cart line whose price changed because the order's customer changed
+export interface CartPriceChange {
+  id: number;
+  name: string;
+  old_price: number;
+  new_price: number;
+  pricing_name?: string;
+}
+
 // Function to extract price from variation
 export const extractProductPrice = (product: any): { price: number, variation_id?: number } => {
   if (
@@ -38,19 +88,205 @@ export const extractProductPrice = (product: any): { price: number, variation_id
   return { price: 0 };
 };
 
-// Function to extract stock from variation
-export const extractProductStock = (product: any): string => {
-  if (
-    product.product_variations &&
-    product.product_variations.length > 0 &&
-    product.product_variations[0].variations &&
-    product.product_variations[0].variations.length > 0 &&
-    product.product_variations[0].variations[0].variation_location_details &&
-    product.product_variations[0].variations[0].variation_location_details.length > 0
-  ) {
-    return product.product_variations[0].variations[0].variation_location_details[0].qty_available || '0';
+// A variation's prices including and excluding tax for a customer group. A selling price
+// group price replaces the default price; otherwise the group's percentage is added to it.
+export const getVariationPrices = (
+  variation: ProductVariation,
+  pricing: CustomerPricing | null = null
+): { inc_tax: number; exc_tax: number; group_priced: boolean } => {
+  const incTax = parseFloat(variation.sell_price_inc_tax) || 0;
+  const excTax = parseFloat(variation.default_sell_price);
+
+  if (pricing?.selling_price_group_id) {
+    const groupPrice = variation.selling_price_group?.find(
+      price => price.price_group_id === pricing.selling_price_group_id
+    );
+    const value = groupPrice ? parseFloat(String(groupPrice.price_inc_tax)) : NaN;
+    if (!isNaN(value)) {
+      if (groupPrice.price_type === 'percentage') {
+        return { inc_tax: incTax * value / 100, exc_tax: excTax * value / 100, group_priced: true };
+      }
+      // Keep the default price's share of tax for the exclusive price
+      return { inc_tax: value, exc_tax: incTax ? excTax * value / incTax : NaN, group_priced: true };
+    }
+  } else if (pricing?.percent) {
+    const factor = 1 + pricing.percent / 100;
+    return { inc_tax: incTax * factor, exc_tax: excTax * factor, group_priced: true };
   }
-  return '0';
+
+  return { inc_tax: incTax, exc_tax: excTax, group_priced: false };
+};
+
+// Function to extract the product's tax rate and the matching cart price.
+// sell_price_inc_tax always includes tax; exclusive products are rung up at default_sell_price.
+// Pass a variation to price that variation instead of the first one, and the order's
+// customer pricing to use their group's price.
+export const extractProductTax = (
+  product: ProductRecord,
+  variation?: ProductVariation,
+  pricing: CustomerPricing | null = null
+): ProductTaxInfo => {
+  variation = variation || product.product_variations?.[0]?.variations?.[0];
+  const prices = variation ? getVariationPrices(variation, pricing) : null;
+  const price = prices?.inc_tax || 0;
+  const groupPriced = Boolean(prices?.group_priced);
+  const tax = product.product_tax;
+  const taxPercent = tax ? parseFloat(String(tax.amount)) || 0 : 0;
+
+  if (!taxPercent) {
+    return { tax_rate_id: null, tax_percent: 0, tax_type: 'inclusive', cart_price: price, group_priced: groupPriced };
+  }
+
+  const taxType: TaxType = product.tax_type === 'exclusive' ? 'exclusive' : 'inclusive';
+  const priceExcTax = prices ? prices.exc_tax : NaN;
+
+  return {
+    tax_rate_id: tax.id,
+    tax_name: tax.name,
+    tax_percent: taxPercent,
+    // Fall back to the inclusive price if the exclusive one is missing
+    tax_type: taxType === 'exclusive' && !isNaN(priceExcTax) ? 'exclusive' : 'inclusive',
+    cart_price: taxType === 'exclusive' && !isNaN(priceExcTax) ? priceExcTax : price,
+    group_priced: groupPriced,
+  };
+};
+
+// All variations of a product, across its variation templates
+export const getProductVariations = (product: ProductRecord): ProductVariation[] => {
+  return (product.product_variations || []).flatMap(productVariation => productVariation.variations || []);
+};
+
+// Products with more than one variation need the cashier to pick one
+export const hasMultipleVariations = (product: ProductRecord): boolean => {
+  return getProductVariations(product).length > 1;
+};
+
+// Display name of a variation, or null for a single product's default variation
+export const getVariationName = (variation: ProductVariation): string | null => {
+  return variation.name && variation.name !== DEFAULT_VARIATION_NAME ? variation.name : null;
+};
+
+// Stock of a variation at a location (or at all locations when none is given),
+// or null when the ERP has no stock record for it
+export const getVariationStock = (variation: ProductVariation, locationId: number | null): number | null => {
+  const details = (variation.variation_location_details || []).filter(
+    detail => !locationId || detail.location_id === locationId
+  );
+  if (details.length === 0) {
+    return null;
+  }
+  return details.reduce((sum, detail) => sum + (parseFloat(detail.qty_available) || 0), 0);
+};
+
+// Stock available to sell, or null when the product doesn't track stock
+export const getAvailableStock = (
+  product: ProductRecord,
+  variation: ProductVariation | undefined,
+  locationId: number | null
+): number | null => {
+  if (!product.enable_stock || !variation) {
+    return null;
+  }
+  return getVariationStock(variation, locationId) ?? 0;
+};
+
+// Variation whose sub-SKU matches a scanned code exactly
+export const findVariationByCode = (product: ProductRecord, code: string): ProductVariation | undefined => {
+  const normalized = normalizeCode(code);
+  return getProductVariations(product).find(
+    variation => variation.sub_sku && normalizeCode(String(variation.sub_sku)) === normalized
+  );
+};
+
+// Cart line for a product (and optionally a specific variation), or null if it has no price.
+// Pass the order's customer pricing to use their group's price.
+export const buildCartItem = (
+  product: ProductRecord,
+  variation?: ProductVariation,
+  locationId: number | null = null,
+  pricing: CustomerPricing | null = null
+): Omit<CartItem, 'id'> | null => {
+  variation = variation || getProductVariations(product)[0];
+  const taxInfo = extractProductTax(product, variation, pricing);
+  
+  if (!taxInfo.cart_price) {
+    return null;
+  }
+  
+  const variationName = variation ? getVariationName(variation) : null;
+  
+  // Line total and tax are worked out by the cart from the tax rate and type
+  return {
+    product_id: product.id,
+    name: variationName ? `${product.name} (${variationName})` : product.name,
+    sku: variation?.sub_sku || product.sku,
+    price: taxInfo.cart_price,
+    quantity: 1,
+    discount: 0,
+    tax: 0,
+    tax_rate_id: taxInfo.tax_rate_id,
+    tax_name: taxInfo.tax_name,
+    tax_percent: taxInfo.tax_percent,
+    tax_type: taxInfo.tax_type,
+    total: taxInfo.cart_price,
+    variation_id: variation?.id,
+    available_stock: getAvailableStock(product, variation, locationId),
+    pricing_name: taxInfo.group_priced ? pricing?.name : undefined
+  };
+};
+
+/**
+ * Work out the new price of each cart line for a customer's pricing. Lines whose price
+ * the cashier typed in, and products no longer stored, keep their price.
+ * @returns The lines whose price changes
+ */
+export const repriceCartItems = async (
+  items: CartItem[],
+  pricing: CustomerPricing | null
+): Promise<CartPriceChange[]> => {
+  const changes: CartPriceChange[] = [];
+  for (const item of items) {
+    if (item.original_price !== undefined) continue;
+
+    const product: ProductRecord | undefined = await getProduct(item.product_id);
+    if (!product) continue;
+
+    const variation = getProductVariations(product).find(candidate => candidate.id === item.variation_id);
+    const taxInfo = extractProductTax(product, variation, pricing);
+    const pricingName = taxInfo.group_priced ? pricing?.name : undefined;
+    if (taxInfo.cart_price && (taxInfo.cart_price !== item.price || pricingName !== item.pricing_name)) {
+      changes.push({
+        id: item.id,
+        name: item.name,
+        old_price: item.price,
+        new_price: taxInfo.cart_price,
+        pricing_name: pricingName,
+      });
+    }
+  }
+  return changes;
+};
+
+// Find the product with exactly this SKU or barcode. The variation is only set when the
+// code is a variation's sub-SKU - a multi-variation product's own code leaves it unset.
+export const findProductByCode = async (
+  code: string
+): Promise<{ product: ProductRecord; variation?: ProductVariation } | null> => {
+  const [product] = await getProductsByCode(code);
+  if (!product) {
+    return null;
+  }
+  return { product, variation: findVariationByCode(product, code) };
+};
+
+// Function to extract stock at a location, summed over the product's variations.
+// Without a location the stock at every location is counted.
+export const extractProductStock = (product: ProductRecord, locationId: number | null = null): string => {
+  const total = getProductVariations(product).reduce(
+    (sum, variation) => sum + (getVariationStock(variation, locationId) || 0),
+    0
+  );
+  return String(total);
 };
 
 // Format price using business settings
@@ -62,7 +298,8 @@ export const formatProductPrice = (price: number | string, businessSettings: Bus
 // Function to load and process products
 export const loadProducts = async (
   searchTerm: string = '',
-  categoryId: number | null = null
+  categoryId: number | null = null,
+  locationId: number | null = null
 ): Promise<{ 
   products: ProductData[], 
   businessSettings: BusinessSettings | null 
@@ -89,7 +326,7 @@ export const loadProducts = async (
     // Process each product to add formatted price and stock
     const processedProducts: ProductData[] = filteredProducts.map(product => {
       const { price, variation_id } = extractProductPrice(product);
-      const stock = extractProductStock(product);
+      const stock = extractProductStock(product, locationId);
       
       return {
         ...product,
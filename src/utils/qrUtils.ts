@@ -0,0 +1,27 @@
+/**
+ * QR codes drawn offline as SVG, for printed documents
+ */
+import { create } from 'qrcode';
+
+/**
+ * Render data as an inline SVG QR code
+ *
+ * @param size Rendered width and height, in any CSS unit
+ */
+export const renderQrSvg = (data: string, size = '30mm'): string => {
+  const { modules } = create(data, { errorCorrectionLevel: 'M' });
+  // Quiet zone of 4 modules on every side
+  const margin = 4;
+  const dimension = modules.size + margin * 2;
+
+  let path = '';
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        path += `M${col + margin} ${row + margin}h1v1h-1z`;
+      }
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" width="${size}" height="${size}" shape-rendering="crispEdges"><rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
@@ -0,0 +1,207 @@
+import { BusinessLocation, BusinessSettings } from '@/lib/businessSettings';
+import { ReceiptPaperSize, ReceiptSettings } from '@/lib/receiptSettings';
+import { formatLocationAddress } from '@/services/locationService';
+import { formatCurrencySync } from '@/utils/formatting';
+import { getPaymentMethodLabel, roundToPrecision } from '@/utils/paymentUtils';
+import { escapeHtml } from '@/utils/printUtils';
+import { renderQrSvg } from '@/utils/qrUtils';
+import { getLineUnitPriceIncTax, StoredSale } from '@/utils/saleUtils';
+import type { TaxBreakdownEntry } from '@/utils/taxUtils';
+import { getVatNumber } from '@/utils/zatcaUtils';
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+  note?: string;
+}
+
+// Everything printed on a receipt, worked out from a completed sale
+export interface ReceiptData {
+  business_name: string;
+  location_name: string;
+  location_address: string;
+  vat_label?: string;
+  vat_number?: string;
+  invoice_no: string;
+  date: string;
+  customer_name?: string;
+  lines: ReceiptLine[];
+  subtotal: number;
+  discount: number;
+  order_tax: number;
+  tax_breakdown: TaxBreakdownEntry[];
+  round_off: number;
+  total: number;
+  payments: { label: string; amount: number }[];
+  cash_tendered?: number;
+  change_return?: number;
+  credit_amount?: number;
+  note?: string;
+  // ZATCA e-invoice QR payload
+  qr_data?: string;
+}
+
+// Printable width and base font size for each paper size
+const PAPER_STYLES: Record<ReceiptPaperSize, { page: string; width: string; fontSize: string }> = {
+  '58mm': { page: '58mm auto', width: '48mm', fontSize: '11px' },
+  '80mm': { page: '80mm auto', width: '72mm', fontSize: '12px' },
+  A4: { page: 'A4', width: '100%', fontSize: '13px' },
+};
+
+/**
+ * Build the receipt for a stored sale
+ */
+export const buildReceiptData = (
+  sale: StoredSale,
+  settings: BusinessSettings | null,
+  location: BusinessLocation | null
+): ReceiptData => {
+  const precision = settings?.currency_precision ?? 2;
+
+  const lines = sale.products.map(product => {
+    const unitPrice = getLineUnitPriceIncTax(product);
+    return {
+      name: product.name || `Item #${product.product_id}`,
+      quantity: product.quantity,
+      unit_price: roundToPrecision(unitPrice, precision),
+      total: roundToPrecision(unitPrice * product.quantity, precision),
+      note: product.note,
+    };
+  });
+
+  const subtotal = roundToPrecision(lines.reduce((sum, line) => sum + line.total, 0), precision);
+  const discount = roundToPrecision(
+    sale.discount_type === 'percentage'
+      ? subtotal * (sale.discount_amount || 0) / 100
+      : sale.discount_amount || 0,
+    precision
+  );
+  const orderTax = sale.tax_amount || 0;
+  const roundOff = sale.round_off_amount || 0;
+
+  return {
+    business_name: settings?.name || '',
+    location_name: location?.name || '',
+    location_address: formatLocationAddress(location),
+    vat_label: settings?.tax_label_1 || 'VAT No',
+    vat_number: getVatNumber(settings) || undefined,
+    invoice_no: sale.invoice_no || String(sale.local_id),
+    date: sale.transaction_date,
+    customer_name: sale.customer_name,
+    lines,
+    subtotal,
+    discount,
+    order_tax: orderTax,
+    tax_breakdown: sale.tax_breakdown || [],
+    round_off: roundOff,
+    total: sale.final_total ?? roundToPrecision(subtotal - discount + orderTax + roundOff, precision),
+    payments: (sale.payment || []).map(payment => ({
+      label: getPaymentMethodLabel(payment.method, settings),
+      amount: payment.amount,
+    })),
+    cash_tendered: sale.cash_tendered,
+    change_return: sale.change_return,
+    credit_amount: sale.credit_amount,
+    note: sale.sale_note,
+    qr_data: sale.zatca_qr,
+  };
+};
+
+// One label/amount row of the totals section
+const renderRow = (label: string, value: string, className = ''): string => {
+  return `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="num">${escapeHtml(value)}</td></tr>`;
+};
+
+/**
+ * Render a receipt as a complete HTML document for the given paper size
+ */
+export const renderReceiptHtml = (
+  receipt: ReceiptData,
+  options: Pick<ReceiptSettings, 'paper_size' | 'header_text' | 'footer_text' | 'show_tax_breakdown'>,
+  settings: BusinessSettings | null
+): string => {
+  const paper = PAPER_STYLES[options.paper_size] || PAPER_STYLES['80mm'];
+  const precision = settings?.currency_precision ?? 2;
+  const formatPrice = (amount: number) => settings ? formatCurrencySync(amount, settings) : amount.toFixed(precision);
+
+  const lines = receipt.lines.map(line => `
+      <tr>
+        <td colspan="2">${escapeHtml(line.name)}</td>
+      </tr>
+      <tr class="detail">
+        <td>${escapeHtml(line.quantity)} x ${escapeHtml(formatPrice(line.unit_price))}</td>
+        <td class="num">${escapeHtml(formatPrice(line.total))}</td>
+      </tr>${line.note ? `
+      <tr class="detail"><td colspan="2"><em>${escapeHtml(line.note)}</em></td></tr>` : ''}`).join('');
+
+  const totals = [
+    renderRow('Subtotal', formatPrice(receipt.subtotal)),
+    receipt.discount ? renderRow('Discount', `-${formatPrice(receipt.discount)}`) : '',
+    receipt.order_tax ? renderRow('Order tax', formatPrice(receipt.order_tax)) : '',
+    receipt.round_off ? renderRow('Round off', formatPrice(receipt.round_off)) : '',
+    renderRow('Total', formatPrice(receipt.total), 'grand'),
+  ].join('');
+
+  const taxes = options.show_tax_breakdown && receipt.tax_breakdown.length > 0
+    ? `<table class="section">${receipt.tax_breakdown.map(entry =>
+        renderRow(`${entry.name} (${entry.percent}%) on ${formatPrice(entry.taxable_amount)}`, formatPrice(entry.tax_amount))
+      ).join('')}</table>`
+    : '';
+
+  const tenders = [
+    ...receipt.payments.map(payment => renderRow(payment.label, formatPrice(payment.amount))),
+    receipt.cash_tendered ? renderRow('Cash tendered', formatPrice(receipt.cash_tendered)) : '',
+    receipt.change_return ? renderRow('Change', formatPrice(receipt.change_return)) : '',
+    receipt.credit_amount ? renderRow('On account', formatPrice(receipt.credit_amount)) : '',
+  ].join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Receipt ${escapeHtml(receipt.invoice_no)}</title>
+  <style>
+    @page { size: ${paper.page}; margin: ${options.paper_size === 'A4' ? '15mm' : '0'}; }
+    body { margin: 0; font-family: monospace, sans-serif; font-size: ${paper.fontSize}; color: #000; }
+    .receipt { width: ${paper.width}; margin: 0 auto; padding: 2mm 0; }
+    .center { text-align: center; }
+    h1 { font-size: 1.4em; margin: 0; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 1px 0; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .detail td { padding-left: 2mm; }
+    .section { border-top: 1px dashed #000; margin-top: 2mm; padding-top: 2mm; }
+    .grand td { font-weight: bold; font-size: 1.2em; }
+    .muted { font-size: 0.9em; }
+    .qr { text-align: center; margin-top: 2mm; }
+  </style>
+</head>
+<body>
+  <div class="receipt">
+    <div class="center">
+      <h1>${escapeHtml(receipt.business_name)}</h1>
+      ${receipt.location_name ? `<div>${escapeHtml(receipt.location_name)}</div>` : ''}
+      ${receipt.location_address ? `<div class="muted">${escapeHtml(receipt.location_address)}</div>` : ''}
+      ${receipt.vat_number ? `<div>${escapeHtml(receipt.vat_label)}: ${escapeHtml(receipt.vat_number)}</div>` : ''}
+      ${options.header_text ? `<div>${escapeHtml(options.header_text)}</div>` : ''}
+      ${receipt.qr_data ? '<div><strong>Simplified Tax Invoice</strong></div>' : ''}
+    </div>
+    <table class="section">
+      ${renderRow('Invoice', receipt.invoice_no)}
+      ${renderRow('Date', new Date(receipt.date).toLocaleString())}
+      ${receipt.customer_name ? renderRow('Customer', receipt.customer_name) : ''}
+    </table>
+    <table class="section">${lines}
+    </table>
+    <table class="section">${totals}</table>
+    ${taxes}
+    ${tenders ? `<table class="section">${tenders}</table>` : ''}
+    ${receipt.note ? `<div class="section">${escapeHtml(receipt.note)}</div>` : ''}
+    ${receipt.qr_data ? `<div class="qr">${renderQrSvg(receipt.qr_data)}</div>` : ''}
+    ${options.footer_text ? `<div class="section center">${escapeHtml(options.footer_text)}</div>` : ''}
+  </div>
+</body>
+</html>`;
+};
@@ -0,0 +1,75 @@
+import { CartItem } from '@/context/CartContext';
+import { SaleData, SaleProduct } from '@/services/api';
+import { getUnitPriceExcTax } from '@/utils/taxUtils';
+
+/**
+ * Line discount as the ERP applies it - on the unit price before tax.
+ * A fixed discount on a tax-inclusive price has the tax taken out of it.
+ */
+const getDiscountExcTax = (item: CartItem): number => {
+  if (item.discount_type === 'percentage' || item.tax_type !== 'inclusive' || !item.tax_percent) {
+    return item.discount;
+  }
+  return item.discount / (1 + item.tax_percent / 100);
+};
+
+/**
+ * Map cart lines to the products payload of a sale.
+ * Unit prices are sent before tax; the ERP adds the line tax from tax_rate_id.
+ */
+export const buildSaleProducts = (items: CartItem[]): SaleProduct[] => {
+  return items.map(item => ({
+    product_id: item.product_id,
+    variation_id: item.variation_id || undefined,
+    quantity: item.quantity,
+    unit_price: getUnitPriceExcTax(item),
+    tax_rate_id: item.tax_rate_id || null,
+    tax_amount: item.tax,
+    discount_amount: getDiscountExcTax(item),
+    discount_type: item.discount_type || 'fixed',
+    note: item.note || undefined,
+    name: item.name,
+    unit_price_inc_tax: item.quantity ? item.total / item.quantity : 0,
+  }));
+};
+
+/**
+ * Price per unit of a sold line, including tax and line discount.
+ * Older sale records only have the price before tax, so it is worked out from that.
+ */
+export const getLineUnitPriceIncTax = (product: SaleProduct): number => {
+  if (product.unit_price_inc_tax !== undefined) {
+    return product.unit_price_inc_tax;
+  }
+  const discount = product.discount_type === 'percentage'
+    ? product.unit_price * (product.discount_amount || 0) / 100
+    : product.discount_amount || 0;
+  const unitTax = product.quantity ? (product.tax_amount || 0) / product.quantity : 0;
+  return product.unit_price - discount + unitTax;
+};
+
+/**
+ * Extract the transaction ID from a createSale response.
+ * The sell API returns an array of created transactions.
+ */
+export const getCreatedTransactionId = (
+  data: { id?: number } | { id?: number }[] | null
+): number | null => {
+  const transaction = Array.isArray(data) ? data[0] : data;
+  return transaction?.id ?? null;
+};
+
+// A sale as kept in local storage
+export type StoredSale = SaleData & { local_id: number; is_synced?: number };
+
+export type SaleType = 'final' | 'quotation' | 'draft';
+
+/**
+ * Whether a stored sale is a completed sale, a quotation or a draft
+ */
+export const getSaleType = (sale: Pick<SaleData, 'status' | 'is_quotation'>): SaleType => {
+  if (sale.is_quotation) {
+    return 'quotation';
+  }
+  return sale.status === 'draft' ? 'draft' : 'final';
+};
@@ -0,0 +1,53 @@
+// Short beeps for scan feedback, generated with the Web Audio API so no sound files are needed
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+  if (typeof window === 'undefined' || !window.AudioContext) {
+    return null;
+  }
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+};
+
+const playTone = (frequency: number, durationMs: number, startOffsetMs = 0) => {
+  const context = getAudioContext();
+  if (!context) return;
+
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const start = context.currentTime + startOffsetMs / 1000;
+
+  oscillator.type = 'square';
+  oscillator.frequency.value = frequency;
+  gain.gain.value = 0.1;
+  oscillator.connect(gain);
+  gain.connect(context.destination);
+  oscillator.start(start);
+  oscillator.stop(start + durationMs / 1000);
+};
+
+/**
+ * Single high beep for a successful scan
+ */
+export const playScanSuccess = (): void => {
+  try {
+    playTone(1200, 80);
+  } catch (error) {
+    console.error('Error playing scan sound:', error);
+  }
+};
+
+/**
+ * Two low beeps for a code that matched nothing
+ */
+export const playScanFailure = (): void => {
+  try {
+    playTone(300, 150);
+    playTone(300, 150, 220);
+  } catch (error) {
+    console.error('Error playing scan sound:', error);
+  }
+};
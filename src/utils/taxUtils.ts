@@ -0,0 +1,169 @@
+import type { CartItem, CartState } from '@/context/CartContext';
+import { roundToPrecision } from '@/utils/paymentUtils';
+
+/**
+ * Tax engine for the cart.
+ *
+ * Lines follow the product's tax type: an inclusive price already contains the tax,
+ * which is extracted from it; an exclusive price has the tax added on top.
+ * Like the ERP, the order discount and order tax apply to the sum of the
+ * tax-inclusive line totals, and line taxes are not reduced by the order discount.
+ */
+
+export type TaxType = 'inclusive' | 'exclusive';
+
+// Precision used for line amounts held in the cart, before business rounding
+const LINE_PRECISION = 4;
+
+export interface LineTaxResult {
+  // Line total before tax
+  net: number;
+  tax: number;
+  // Line total including tax
+  gross: number;
+}
+
+export interface TaxBreakdownEntry {
+  tax_rate_id: number | null;
+  name: string;
+  percent: number;
+  // Amount the tax was charged on
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface CartTaxSummary {
+  // Sum of tax-inclusive line totals
+  subtotal: number;
+  discount: number;
+  line_tax: number;
+  order_tax: number;
+  tax: number;
+  total: number;
+  breakdown: TaxBreakdownEntry[];
+}
+
+type TaxableLine = Pick<CartItem, 'price' | 'quantity' | 'tax_percent' | 'tax_type'> & {
+  unit_discount: number;
+};
+
+/**
+ * Split an amount into net, tax and gross for a tax rate and tax type
+ */
+export const splitTax = (
+  amount: number,
+  percent: number,
+  taxType: TaxType = 'exclusive',
+  precision = LINE_PRECISION
+): LineTaxResult => {
+  if (!percent) {
+    const value = roundToPrecision(amount, precision);
+    return { net: value, tax: 0, gross: value };
+  }
+
+  if (taxType === 'inclusive') {
+    const gross = roundToPrecision(amount, precision);
+    const tax = roundToPrecision(gross - gross / (1 + percent / 100), precision);
+    return { net: roundToPrecision(gross - tax, precision), tax, gross };
+  }
+
+  const net = roundToPrecision(amount, precision);
+  const tax = roundToPrecision(net * percent / 100, precision);
+  return { net, tax, gross: roundToPrecision(net + tax, precision) };
+};
+
+/**
+ * Net, tax and gross of a cart line after its discount
+ */
+export const calculateLineTaxes = (line: TaxableLine): LineTaxResult => {
+  const amount = (line.price - line.unit_discount) * line.quantity;
+  return splitTax(amount, line.tax_percent || 0, line.tax_type || 'exclusive');
+};
+
+/**
+ * Unit price before tax - the ERP expects unit prices exclusive of tax
+ */
+export const getUnitPriceExcTax = (item: Pick<CartItem, 'price' | 'tax_percent' | 'tax_type'>): number => {
+  return splitTax(item.price, item.tax_percent || 0, item.tax_type || 'exclusive').net;
+};
+
+/**
+ * Order discount as an amount - a percentage is taken of the subtotal.
+ * Never more than the subtotal.
+ */
+export const getOrderDiscountAmount = (
+  subtotal: number,
+  cart: Pick<CartState, 'discount' | 'discount_type'>,
+  precision = LINE_PRECISION
+): number => {
+  if (!cart.discount || cart.discount <= 0) {
+    return 0;
+  }
+
+  const discount = cart.discount_type === 'percentage'
+    ? subtotal * Math.min(cart.discount, 100) / 100
+    : cart.discount;
+
+  return roundToPrecision(Math.min(discount, subtotal), precision);
+};
+
+/**
+ * Totals and per-rate tax breakdown of a cart, rounded to the business precision
+ */
+export const calculateCartTaxes = (cart: CartState, precision = 2): CartTaxSummary => {
+  const round = (amount: number) => roundToPrecision(amount, precision);
+  const rates = new Map<string, TaxBreakdownEntry>();
+
+  const addToBreakdown = (
+    taxRateId: number | null | undefined,
+    name: string | undefined,
+    percent: number,
+    taxable: number,
+    tax: number
+  ) => {
+    const key = `${taxRateId ?? 'none'}_${percent}`;
+    const entry = rates.get(key) || {
+      tax_rate_id: taxRateId ?? null,
+      name: name || `Tax ${percent}%`,
+      percent,
+      taxable_amount: 0,
+      tax_amount: 0,
+    };
+    entry.taxable_amount += taxable;
+    entry.tax_amount += tax;
+    rates.set(key, entry);
+  };
+
+  let subtotal = 0;
+  let lineTax = 0;
+  for (const item of cart.items) {
+    subtotal += item.total;
+    lineTax += item.tax || 0;
+    if (item.tax_percent) {
+      addToBreakdown(item.tax_rate_id, item.tax_name, item.tax_percent, item.total - (item.tax || 0), item.tax || 0);
+    }
+  }
+
+  subtotal = round(subtotal);
+  const discount = round(getOrderDiscountAmount(subtotal, cart, precision));
+  const orderTax = cart.tax_percent ? round((subtotal - discount) * cart.tax_percent / 100) : 0;
+  if (cart.tax_percent) {
+    addToBreakdown(cart.tax_rate_id, cart.tax_name, cart.tax_percent, subtotal - discount, orderTax);
+  }
+
+  const line_tax = round(lineTax);
+
+  return {
+    subtotal,
+    discount,
+    line_tax,
+    order_tax: orderTax,
+    tax: round(line_tax + orderTax),
+    total: round(subtotal - discount + orderTax),
+    breakdown: Array.from(rates.values()).map(entry => ({
+      ...entry,
+      taxable_amount: round(entry.taxable_amount),
+      tax_amount: round(entry.tax_amount),
+    })),
+  };
+};
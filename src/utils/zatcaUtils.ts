@@ -0,0 +1,102 @@
+/**
+ * ZATCA (Saudi e-invoicing) QR codes for simplified tax invoices. The QR holds the
+ * seller name, VAT number, timestamp, invoice total and VAT total as TLV fields
+ * (tag byte, length byte, UTF-8 value), base64 encoded.
+ */
+import { BusinessSettings } from '@/lib/businessSettings';
+import { SaleData } from '@/services/api';
+import { roundToPrecision } from '@/utils/paymentUtils';
+
+export interface ZatcaInvoiceFields {
+  seller_name: string;
+  vat_number: string;
+  // ISO 8601, e.g. 2024-01-31T14:05:00Z
+  timestamp: string;
+  // Invoice total including VAT
+  total: number;
+  vat_total: number;
+}
+
+// TLV tags defined by ZATCA for phase 1 QR codes
+const ZATCA_TAGS = {
+  seller_name: 1,
+  vat_number: 2,
+  timestamp: 3,
+  total: 4,
+  vat_total: 5,
+} as const;
+
+/**
+ * Encode values as tag-length-value bytes. Each value must be under 256 bytes.
+ */
+export const encodeTlv = (fields: { tag: number; value: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+
+  fields.forEach(({ tag, value }) => {
+    const encoded = encoder.encode(value);
+    if (encoded.length > 255) {
+      throw new Error(`TLV value for tag ${tag} is too long`);
+    }
+    bytes.push(tag, encoded.length, ...encoded);
+  });
+
+  return Uint8Array.from(bytes);
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+/**
+ * The base64 QR payload for an invoice
+ */
+export const buildZatcaQrPayload = (fields: ZatcaInvoiceFields): string => {
+  return toBase64(encodeTlv([
+    { tag: ZATCA_TAGS.seller_name, value: fields.seller_name },
+    { tag: ZATCA_TAGS.vat_number, value: fields.vat_number },
+    { tag: ZATCA_TAGS.timestamp, value: fields.timestamp },
+    { tag: ZATCA_TAGS.total, value: fields.total.toFixed(2) },
+    { tag: ZATCA_TAGS.vat_total, value: fields.vat_total.toFixed(2) },
+  ]));
+};
+
+/**
+ * The business's VAT registration number, if it has one
+ */
+export const getVatNumber = (settings: BusinessSettings | null): string => {
+  return (settings?.tax_number_1 || '').trim();
+};
+
+/**
+ * Invoices only carry a ZATCA QR when the business is VAT registered
+ */
+export const isZatcaEnabled = (settings: BusinessSettings | null): boolean => {
+  return !!settings?.name && !!getVatNumber(settings);
+};
+
+/**
+ * The QR payload for a sale, or undefined when the business has no VAT number
+ */
+export const getZatcaQrForSale = (sale: SaleData, settings: BusinessSettings | null): string | undefined => {
+  if (!settings || !isZatcaEnabled(settings)) {
+    return undefined;
+  }
+
+  const vatTotal = sale.tax_breakdown?.length
+    ? sale.tax_breakdown.reduce((sum, entry) => sum + entry.tax_amount, 0)
+    : sale.tax_amount || 0;
+
+  return buildZatcaQrPayload({
+    seller_name: settings.name,
+    vat_number: getVatNumber(settings),
+    // Whole seconds, as shown on the receipt
+    timestamp: new Date(sale.transaction_date).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    total: sale.final_total ?? 0,
+    vat_total: roundToPrecision(vatTotal, 2),
+  });
+};